@@ -25,4 +25,33 @@ export default tseslint.config(
       ],
     },
   },
+  {
+    // Modules the Supabase edge functions import too. Deno loads them as
+    // they are, so they can't reach for the browser, React or the Supabase
+    // client, and relative imports name the file in full.
+    files: [
+      'src/lib/engine/**/*.ts',
+      'src/lib/bots/**/*.ts',
+      'src/lib/backend/{rooms,types}.ts',
+      'src/lib/{abandonment,database.types,moveValidator,players,profiles,ratings,roomSchema,timeControl,types}.ts',
+    ],
+    ignores: ['**/*.test.ts'],
+    rules: {
+      'no-restricted-imports': [
+        'error',
+        {
+          patterns: [
+            {
+              group: ['react', 'react-dom', '@supabase/*', '@/*', '**/supabase'],
+              message: 'The edge functions share this module with the client.',
+            },
+            {
+              regex: '^\\.\\.?/(?!.*\\.ts$)',
+              message: 'Deno needs the .ts extension on relative imports.',
+            },
+          ],
+        },
+      ],
+    },
+  },
 )
@@ -0,0 +1,35 @@
+import { ABANDON_GRACE_OPTIONS } from "@/lib/abandonment";
+
+interface AbandonGraceSelectProps {
+  value: number;
+  onChange: (seconds: number) => void;
+  disabled?: boolean;
+}
+
+function formatGrace(seconds: number) {
+  return seconds < 60 ? `${seconds} seconds` : `${seconds / 60} min`;
+}
+
+export default function AbandonGraceSelect({
+  value,
+  onChange,
+  disabled,
+}: AbandonGraceSelectProps) {
+  return (
+    <label className="flex items-center justify-between gap-2 text-sm text-gray-600">
+      Claim win after disconnect
+      <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="px-2 py-1 border rounded-md"
+        disabled={disabled}
+      >
+        {ABANDON_GRACE_OPTIONS.map((seconds) => (
+          <option key={seconds} value={seconds}>
+            {formatGrace(seconds)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
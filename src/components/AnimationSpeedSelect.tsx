@@ -0,0 +1,32 @@
+import {
+  ANIMATION_SPEEDS,
+  ANIMATION_SPEED_LABELS,
+  type AnimationSpeed,
+} from "@/lib/settings";
+
+interface AnimationSpeedSelectProps {
+  value: AnimationSpeed;
+  onChange: (speed: AnimationSpeed) => void;
+}
+
+export default function AnimationSpeedSelect({
+  value,
+  onChange,
+}: AnimationSpeedSelectProps) {
+  return (
+    <label className="mb-4 flex items-center gap-2 text-sm text-gray-600">
+      Animations
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as AnimationSpeed)}
+        className="px-2 py-1 border rounded-md"
+      >
+        {ANIMATION_SPEEDS.map((speed) => (
+          <option key={speed} value={speed}>
+            {ANIMATION_SPEED_LABELS[speed]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
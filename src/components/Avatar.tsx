@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { getProfileName } from "@/lib/profiles";
+import type { Profile } from "@/lib/types";
+
+interface AvatarProps {
+  profile: Profile | undefined;
+  size?: number;
+}
+
+// The player's picture, or their initial on their favourite colour when
+// they have none or it fails to load
+export default function Avatar({ profile, size = 32 }: AvatarProps) {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const name = getProfileName(profile);
+  const url = profile?.avatar_url;
+
+  if (url && url !== failedUrl) {
+    return (
+      <img
+        src={url}
+        alt={name}
+        width={size}
+        height={size}
+        className="rounded-full object-cover"
+        style={{ width: size, height: size }}
+        referrerPolicy="no-referrer"
+        onError={() => setFailedUrl(url)}
+      />
+    );
+  }
+
+  return (
+    <div
+      className="flex items-center justify-center rounded-full font-medium text-white"
+      style={{
+        width: size,
+        height: size,
+        fontSize: size / 2,
+        backgroundColor: profile?.favorite_color ?? "#9CA3AF",
+      }}
+      aria-label={name}
+    >
+      {name.charAt(0).toUpperCase()}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import {
+  MAX_BOARD_DIMENSION,
+  MIN_BOARD_DIMENSION,
+  type BoardSize,
+} from "@/lib/engine";
+
+const PRESETS: Array<{ label: string; size: BoardSize }> = [
+  { label: "Small (5 × 5)", size: { rows: 5, cols: 5 } },
+  { label: "Classic (6 × 6)", size: { rows: 6, cols: 6 } },
+  { label: "Phone (9 × 6)", size: { rows: 9, cols: 6 } },
+  { label: "Large (8 × 8)", size: { rows: 8, cols: 8 } },
+  { label: "Big (10 × 10)", size: { rows: 10, cols: 10 } },
+  { label: "Huge (12 × 20)", size: { rows: 12, cols: 20 } },
+];
+
+const CUSTOM = "custom";
+
+interface BoardSizePickerProps {
+  value: BoardSize;
+  onChange: (size: BoardSize) => void;
+  disabled?: boolean;
+}
+
+export default function BoardSizePicker({
+  value,
+  onChange,
+  disabled,
+}: BoardSizePickerProps) {
+  const presetIndex = PRESETS.findIndex(
+    ({ size }) => size.rows === value.rows && size.cols === value.cols
+  );
+  const [isEditing, setIsEditing] = useState(false);
+  const isCustom = isEditing || presetIndex === -1;
+
+  const clamp = (dimension: number) =>
+    Math.min(
+      MAX_BOARD_DIMENSION,
+      Math.max(MIN_BOARD_DIMENSION, Math.round(dimension) || 0)
+    );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="flex items-center justify-between gap-2 text-sm text-gray-600">
+        Board size
+        <select
+          value={isCustom ? CUSTOM : presetIndex}
+          onChange={(e) => {
+            // Custom keeps the current size as a starting point for editing
+            setIsEditing(e.target.value === CUSTOM);
+            if (e.target.value !== CUSTOM) {
+              onChange(PRESETS[Number(e.target.value)].size);
+            }
+          }}
+          className="px-2 py-1 border rounded-md"
+          disabled={disabled}
+        >
+          {PRESETS.map(({ label }, i) => (
+            <option key={label} value={i}>
+              {label}
+            </option>
+          ))}
+          <option value={CUSTOM}>Custom...</option>
+        </select>
+      </label>
+      {isCustom && (
+        <div className="flex items-center justify-end gap-2 text-sm text-gray-600">
+          <input
+            type="number"
+            min={MIN_BOARD_DIMENSION}
+            max={MAX_BOARD_DIMENSION}
+            value={value.rows}
+            onChange={(e) =>
+              onChange({ ...value, rows: clamp(Number(e.target.value)) })
+            }
+            className="w-16 px-2 py-1 border rounded-md"
+            aria-label="Rows"
+            disabled={disabled}
+          />
+          rows ×
+          <input
+            type="number"
+            min={MIN_BOARD_DIMENSION}
+            max={MAX_BOARD_DIMENSION}
+            value={value.cols}
+            onChange={(e) =>
+              onChange({ ...value, cols: clamp(Number(e.target.value)) })
+            }
+            className="w-16 px-2 py-1 border rounded-md"
+            aria-label="Columns"
+            disabled={disabled}
+          />
+          columns
+        </div>
+      )}
+    </div>
+  );
+}
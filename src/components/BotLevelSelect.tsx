@@ -0,0 +1,36 @@
+import { BOT_LEVELS, BOT_LEVEL_LABELS, type BotLevel } from "@/lib/bots";
+
+interface BotLevelSelectProps {
+  value: BotLevel | null;
+  onChange: (level: BotLevel | null) => void;
+  // Label for the null option, or omit to only offer bots
+  humanLabel?: string;
+  disabled?: boolean;
+}
+
+const HUMAN = "human";
+
+export default function BotLevelSelect({
+  value,
+  onChange,
+  humanLabel,
+  disabled,
+}: BotLevelSelectProps) {
+  return (
+    <select
+      value={value ?? HUMAN}
+      onChange={(e) =>
+        onChange(e.target.value === HUMAN ? null : (e.target.value as BotLevel))
+      }
+      className="px-2 py-1 border rounded-md"
+      disabled={disabled}
+    >
+      {humanLabel && <option value={HUMAN}>{humanLabel}</option>}
+      {BOT_LEVELS.map((level) => (
+        <option key={level} value={level}>
+          {BOT_LEVEL_LABELS[level]}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,105 +1,250 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, type ChangeEvent } from "react";
 import { Button } from "./ui/button";
+import GameBoard from "./GameBoard";
+import GameReplay from "./GameReplay";
+import BoardSizePicker from "./BoardSizePicker";
+import PlayerList from "./PlayerList";
+import GameResult from "./GameResult";
+import AnimationSpeedSelect from "./AnimationSpeedSelect";
+import PlayerCountSelect from "./PlayerCountSelect";
+import LocalGame from "./LocalGame";
+import BotLevelSelect from "./BotLevelSelect";
+import TimeControlSelect from "./TimeControlSelect";
+import InviteLinkButton from "./InviteLinkButton";
+import CopyPositionButton from "./CopyPositionButton";
+import OpenRoomList from "./OpenRoomList";
+import SpectatorBar from "./SpectatorBar";
+import AbandonGraceSelect from "./AbandonGraceSelect";
+import VariantSelect from "./VariantSelect";
+import ChatPanel from "./ChatPanel";
+import SeriesScore from "./SeriesScore";
+import Avatar from "./Avatar";
+import ProfilePage from "./ProfilePage";
+import LeaderboardPage from "./LeaderboardPage";
+import { getPlayerNumber, MoveRejectedError } from "@/lib/moveValidator";
+import { getColorName, PLAYERS } from "@/lib/players";
+import { hasLocalGame } from "@/lib/localGame";
+import { addChatMessage } from "@/lib/chat";
 import {
-  createGameRoom,
-  joinGameRoom,
-  updateGameState,
-  subscribeToGameRoom,
-  checkGameRoom,
-  signInWithGoogle,
-  signOut,
-  getCurrentUser,
-  supabase,
-  type GameRoom,
-} from "@/lib/supabase";
-import type { User } from "@supabase/supabase-js";
+  GAME_RECORD_EXTENSION,
+  readGameRecord,
+  type GameRecord,
+} from "@/lib/gameRecord";
+import { BOT_LEVEL_LABELS, type BotLevel } from "@/lib/bots";
+import type { TimeControl, TurnClock } from "@/lib/timeControl";
+import type { ChatMessage, GameRoom, ResultReason, Seat } from "@/lib/types";
+import type { BackendUser, RoomViewer } from "@/lib/backend";
+import {
+  DEFAULT_ABANDON_GRACE_SECONDS,
+  getAbandonGraceMs,
+} from "@/lib/abandonment";
+import {
+  createGameState,
+  createVariant,
+  formatVariant,
+  getMoveError,
+  getVariantLabel,
+  MIN_PLAYERS,
+  type BoardSize,
+  type GameState,
+  type VariantPreset,
+} from "@/lib/engine";
+import { WAVE_DURATION_MS } from "@/lib/settings";
+import { useCascadeAnimation } from "@/hooks/useCascadeAnimation";
+import { useAnimationSpeed } from "@/hooks/useAnimationSpeed";
+import { useBotPlayer } from "@/hooks/useBotPlayer";
+import { useTurnClock } from "@/hooks/useTurnClock";
+import { useRoute } from "@/hooks/useRoute";
+import { useOpenRooms } from "@/hooks/useOpenRooms";
+import { usePlayerConnections } from "@/hooks/usePlayerConnections";
+import { useProfiles } from "@/hooks/useProfiles";
+import { useBackend } from "@/hooks/useBackend";
+
+const NO_CLOCK: TurnClock = {
+  clocks: null,
+  turn_started_at: null,
+  turn_deadline: null,
+};
 
 export default function ChainReaction() {
-  const [user, setUser] = useState<User | null>(null);
-  const [roomId, setRoomId] = useState<string | null>(null);
+  const backend = useBackend();
+  const [user, setUser] = useState<BackendUser | null>(null);
+  const [route, navigate] = useRoute();
+  const roomId = route.name === "room" ? route.roomId : null;
   const [joinRoomId, setJoinRoomId] = useState("");
-  const [boardSize] = useState({ rows: 6, cols: 6 });
-  const [board, setBoard] = useState<
-    Array<Array<{ count: number; player: number | null }>>
-  >([]);
-  const [currentPlayer, setCurrentPlayer] = useState(0);
-  const [players] = useState([
-    { id: 0, color: "#FF5252" }, // Red
-    { id: 1, color: "#4CAF50" }, // Green
-  ]);
-  const [gameOver, setGameOver] = useState(false);
-  const [winner, setWinner] = useState<number | null>(null);
+  const [replayRoomId, setReplayRoomId] = useState<string | null>(null);
+  const [replayRecord, setReplayRecord] = useState<GameRecord | null>(null);
+  const [isLocal, setIsLocal] = useState(hasLocalGame);
+  const [boardSize, setBoardSize] = useState<BoardSize>({ rows: 6, cols: 6 });
+  const [gameState, setGameState] = useState<GameState>(() =>
+    createGameState(boardSize)
+  );
+  const [seats, setSeats] = useState<Seat[]>([]);
+  const [capacity, setCapacity] = useState(MIN_PLAYERS);
+  const [roomCapacity, setRoomCapacity] = useState(MIN_PLAYERS);
+  const [hostId, setHostId] = useState<string | null>(null);
+  const [botLevel, setBotLevel] = useState<BotLevel>("greedy");
+  const [timeControl, setTimeControl] = useState<TimeControl | null>(null);
+  const [isPublic, setIsPublic] = useState(false);
+  const [abandonGraceSeconds, setAbandonGraceSeconds] = useState(
+    DEFAULT_ABANDON_GRACE_SECONDS
+  );
+  const [variant, setVariant] = useState<VariantPreset>("standard");
+  const [roomGraceMs, setRoomGraceMs] = useState(
+    DEFAULT_ABANDON_GRACE_SECONDS * 1000
+  );
+  const [clock, setClock] = useState<TurnClock>(NO_CLOCK);
+  const [resultReason, setResultReason] = useState<ResultReason | null>(null);
+  const [viewers, setViewers] = useState<RoomViewer[]>([]);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [seriesWins, setSeriesWins] = useState<number[]>([]);
+  const [rematchVotes, setRematchVotes] = useState<number[]>([]);
+  const [drawOffers, setDrawOffers] = useState<number[]>([]);
+  const [takebackVotes, setTakebackVotes] = useState<number[]>([]);
+  const [isConfirmingResign, setIsConfirmingResign] = useState(false);
+  const [animationSpeed, setAnimationSpeed] = useAnimationSpeed();
   const [playerNumber, setPlayerNumber] = useState<number | null>(null);
   const [isWaiting, setIsWaiting] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { currentPlayer, gameOver, winner } = gameState;
+  const isHost = user !== null && user.id === hostId;
+  // Anyone who opens a room they have no seat in watches it read-only
+  const isSpectator =
+    user !== null && seats.length > 0 && playerNumber === null;
+  const hasVotedRematch =
+    playerNumber !== null && rematchVotes.includes(playerNumber);
+  // Still has a say in how this game ends
+  const isInGame =
+    playerNumber !== null &&
+    !isWaiting &&
+    !gameOver &&
+    !gameState.eliminated.includes(playerNumber);
+  const hasOfferedDraw =
+    playerNumber !== null && drawOffers.includes(playerNumber);
+  const hasVotedTakeback =
+    playerNumber !== null && takebackVotes.includes(playerNumber);
+  // Only your last move can be taken back, with any bot replies since; the
+  // server checks the history behind a bot's reply
+  const canRequestTakeback =
+    takebackVotes.length === 0 &&
+    gameState.lastMove !== null &&
+    (gameState.lastMove.player === playerNumber ||
+      !!seats[gameState.lastMove.player]?.bot);
+  // Bots play on to the end
+  const canOfferDraw = seats.every(
+    (seat) => !seat.bot || gameState.eliminated.includes(seat.seat)
+  );
+  const spectatorCount = viewers.filter(
+    (viewer) => getPlayerNumber({ seats }, viewer.user_id) === null
+  ).length;
+  const profiles = useProfiles(
+    [user?.id, ...seats.map((seat) => seat.user_id)].filter(
+      (id): id is string => Boolean(id)
+    ),
+    // Pick up edits when coming back from the profile page
+    route.name
+  );
+  const players = seats.length
+    ? seats.map((seat) => ({
+        id: seat.seat,
+        color: seat.color,
+        name: seat.bot
+          ? BOT_LEVEL_LABELS[seat.bot]
+          : (profiles[seat.user_id!]?.display_name ?? undefined),
+      }))
+    : PLAYERS;
+
+  // "Red, Blue" or players' own names, for banners about several seats
+  const describeSeats = (list: number[]) =>
+    list
+      .map((seat) => players[seat].name ?? getColorName(players[seat].color))
+      .join(", ");
+
+  const animation = useCascadeAnimation(
+    gameState,
+    WAVE_DURATION_MS[animationSpeed]
+  );
+
+  // The host's client plays for any bots in the room
+  useBotPlayer({
+    state: gameState,
+    bots: seats.map((seat) => seat.bot),
+    enabled: isHost && !isWaiting && !animation.isAnimating,
+    onMove: async (move) => {
+      try {
+        await backend.submitMove(roomId!, move.row, move.col);
+      } catch (error) {
+        console.error("Failed to submit bot move:", error);
+      }
+    },
+  });
+
+  const openRooms = useOpenRooms(user !== null && route.name === "home");
+
+  const clocks = useTurnClock({
+    clock,
+    state: gameState,
+    canClaim: playerNumber !== null && !isWaiting && !gameOver,
+    onExpire: async () => {
+      try {
+        await backend.claimTimeout(roomId!);
+      } catch (error) {
+        // Refusals just mean the server's clock hasn't caught up yet, or
+        // someone else claimed first
+        if (!(error instanceof MoveRejectedError)) {
+          console.error("Failed to claim timeout:", error);
+        }
+      }
+    },
+  });
+
+  const connections = usePlayerConnections({
+    roomId,
+    seats,
+    hostId,
+    viewers,
+    graceMs: roomGraceMs,
+    isPlayer: playerNumber !== null,
+  });
+  // Everyone else still in the game has been gone past the grace period
+  const canClaimAbandonment =
+    playerNumber !== null &&
+    !isWaiting &&
+    !gameOver &&
+    !gameState.eliminated.includes(playerNumber) &&
+    seats.every(
+      (seat) =>
+        seat.seat === playerNumber ||
+        gameState.eliminated.includes(seat.seat) ||
+        connections[seat.seat] === "offline"
+    );
 
   useEffect(() => {
     // resetGame()
-    checkAuth();
-  }, []);
+    backend.getCurrentUser().then(setUser);
+  }, [backend]);
 
   const checkAuth = async () => {
-    const currentUser = await getCurrentUser();
+    const currentUser = await backend.getCurrentUser();
     setUser(currentUser);
   };
 
   useEffect(() => {
     if (roomId) {
-      console.log("Room ID changed:", roomId, "Player Number:", playerNumber);
+      console.log("Room ID changed:", roomId);
 
       let isSubscribed = true; // For cleanup
 
-      // First fetch the current state
-      const fetchCurrentState = async () => {
-        const { data, error } = await supabase
-          .from("game_rooms")
-          .select("*")
-          .eq("id", roomId)
-          .single();
-
-        if (!error && data && isSubscribed) {
-          console.log("Initial state fetch:", {
-            status: data.status,
-            player2_id: data.player2_id,
-            currentPlayer: data.current_state.currentPlayer,
-            board: data.current_state.board,
-          });
-
-          const gameRoom = data as GameRoom;
-
-          // Update all game states atomically
-          const updates = () => {
-            setBoard(gameRoom.current_state.board);
-            setCurrentPlayer(gameRoom.current_state.currentPlayer);
-            setGameOver(gameRoom.current_state.gameOver);
-            setWinner(gameRoom.current_state.winner);
-            setIsWaiting(gameRoom.status === "waiting");
-          };
-          updates();
-
-          console.log("Initial state updated:", {
-            currentPlayer: gameRoom.current_state.currentPlayer,
-            status: gameRoom.status,
-            player2_id: gameRoom.player2_id,
-            playerNumber,
-            isWaiting: gameRoom.status === "waiting",
-            board: gameRoom.current_state.board,
-          });
-        }
-      };
-
-      fetchCurrentState();
-
-      // Set up the subscription
-      const subscription = subscribeToGameRoom(roomId, (gameRoom: GameRoom) => {
+      // The subscription fetches the current state first, then streams
+      // updates, dropping any that arrive out of order
+      const handleGameRoom = (gameRoom: GameRoom) => {
         if (!isSubscribed) return;
 
         console.log("Processing game room update:", {
           status: gameRoom.status,
-          player2_id: gameRoom.player2_id,
+          seats: gameRoom.seats.length,
           currentPlayer: gameRoom.current_state.currentPlayer,
-          playerNumber,
           board: gameRoom.current_state.board,
         });
 
@@ -112,48 +257,131 @@ export default function ChainReaction() {
         setTimeout(() => {
           if (!isSubscribed) return;
 
-          setBoard(gameRoom.current_state.board);
-          setCurrentPlayer(gameRoom.current_state.currentPlayer);
-          setGameOver(gameRoom.current_state.gameOver);
-          setWinner(gameRoom.current_state.winner);
+          setGameState(gameRoom.current_state);
+          setSeats(gameRoom.seats);
+          setRoomCapacity(gameRoom.capacity);
+          setHostId(gameRoom.player1_id);
+          setClock({
+            clocks: gameRoom.clocks ?? null,
+            turn_started_at: gameRoom.turn_started_at ?? null,
+            turn_deadline: gameRoom.turn_deadline ?? null,
+          });
+          setResultReason(gameRoom.result_reason ?? null);
+          setSeriesWins(gameRoom.series_wins ?? []);
+          setRematchVotes(gameRoom.rematch_votes ?? []);
+          setDrawOffers(gameRoom.draw_offers ?? []);
+          setTakebackVotes(gameRoom.takeback_votes ?? []);
+          setRoomGraceMs(getAbandonGraceMs(gameRoom));
           setIsWaiting(gameRoom.status === "waiting");
+          if (user) setPlayerNumber(getPlayerNumber(gameRoom, user.id));
 
           console.log("Game state updated:", {
             currentPlayer: gameRoom.current_state.currentPlayer,
             status: gameRoom.status,
-            player2_id: gameRoom.player2_id,
-            playerNumber,
+            seats: gameRoom.seats.length,
             isWaiting: gameRoom.status === "waiting",
             board: gameRoom.current_state.board,
           });
         }, 0);
+      };
+
+      const handleChatMessage = (message: ChatMessage) => {
+        if (isSubscribed) {
+          setChatMessages((messages) => addChatMessage(messages, message));
+        }
+      };
+
+      const subscription = backend.subscribeToRoom(roomId, handleGameRoom, {
+        presence: user
+          ? {
+              userId: user.id,
+              onSync: (viewers) => {
+                if (isSubscribed) setViewers(viewers);
+              },
+            }
+          : undefined,
+        onChatMessage: handleChatMessage,
       });
 
+      // Anything said before we arrived, merged with whatever the
+      // subscription has delivered in the meantime
+      backend
+        .getChatMessages(roomId)
+        .then((history) => history?.forEach(handleChatMessage));
+
       return () => {
         console.log("Cleaning up subscription for room:", roomId);
         isSubscribed = false;
         subscription.unsubscribe();
+        setViewers([]);
+        setChatMessages([]);
       };
     }
-  }, [roomId, playerNumber]);
+  }, [backend, roomId, user]);
+
+  // Invite links take a seat before showing the room; room links, e.g. after
+  // a reload, only need the room to exist since the subscription works out
+  // our seat
+  useEffect(() => {
+    if (!user || (route.name !== "room" && route.name !== "join")) return;
+
+    const { roomId } = route;
+    let isCurrent = true;
+
+    const enterRoom = async () => {
+      setIsJoining(true);
+      setError(null);
+
+      const { exists, canJoin, isSeated } = await backend.checkRoom(roomId);
+      if (!isCurrent) return;
+
+      if (!exists) {
+        setError("Game room does not exist");
+        navigate({ name: "home" }, { replace: true });
+      } else if (route.name === "join" && isSeated) {
+        navigate({ name: "room", roomId }, { replace: true });
+      } else if (route.name === "join" && !canJoin) {
+        // Full or already under way, so watch instead
+        navigate({ name: "room", roomId }, { replace: true });
+      } else if (route.name === "join") {
+        const success = await backend.joinRoom(roomId, user.id);
+        if (!isCurrent) return;
+
+        if (success) {
+          navigate({ name: "room", roomId }, { replace: true });
+        } else {
+          setError("Failed to join game room");
+          navigate({ name: "home" }, { replace: true });
+        }
+      }
+      setIsJoining(false);
+    };
+
+    enterRoom();
+
+    return () => {
+      isCurrent = false;
+      setIsJoining(false);
+    };
+  }, [backend, route, user, navigate]);
 
   const resetGame = () => {
-    const newBoard = Array(boardSize.rows)
-      .fill(null)
-      .map(() =>
-        Array(boardSize.cols)
-          .fill(null)
-          .map(() => ({ count: 0, player: null }))
-      );
-    setBoard(newBoard);
-    setCurrentPlayer(0);
-    setGameOver(false);
-    setWinner(null);
+    setGameState(createGameState(boardSize));
+    setSeats([]);
+    setHostId(null);
+    setClock(NO_CLOCK);
+    setResultReason(null);
+    setSeriesWins([]);
+    setRematchVotes([]);
+    setDrawOffers([]);
+    setTakebackVotes([]);
   };
 
   const handleSignIn = async () => {
     try {
-      await signInWithGoogle();
+      await backend.signIn();
+      // Backends that sign in without leaving the page have a user now
+      await checkAuth();
     } catch (error) {
       console.error("Error signing in:", error);
       setError("Failed to sign in");
@@ -162,9 +390,9 @@ export default function ChainReaction() {
 
   const handleSignOut = async () => {
     try {
-      await signOut();
+      await backend.signOut();
       setUser(null);
-      setRoomId(null);
+      navigate({ name: "home" });
       setPlayerNumber(null);
       setIsWaiting(false);
       resetGame();
@@ -178,10 +406,15 @@ export default function ChainReaction() {
     if (!user) return;
     setIsJoining(true);
     setError(null);
-    const newRoomId = await createGameRoom(user.id);
+    const newRoomId = await backend.createRoom(user.id, boardSize, {
+      capacity,
+      timeControl,
+      isPublic,
+      abandonGraceSeconds,
+      variant: createVariant(variant, boardSize),
+    });
     if (newRoomId) {
-      setRoomId(newRoomId);
-      setPlayerNumber(0);
+      navigate({ name: "room", roomId: newRoomId });
       setIsWaiting(true);
     } else {
       setError("Failed to create game room");
@@ -189,236 +422,190 @@ export default function ChainReaction() {
     setIsJoining(false);
   };
 
-  const handleJoinRoom = async () => {
-    if (!joinRoomId || !user) return;
+  const handleQuickMatch = async () => {
+    if (!user) return;
     setIsJoining(true);
     setError(null);
-
-    const { exists, canJoin } = await checkGameRoom(joinRoomId);
-
-    if (!exists) {
-      setError("Game room does not exist");
-      setIsJoining(false);
-      return;
-    }
-
-    if (!canJoin) {
-      setError("Cannot join this game room");
-      setIsJoining(false);
-      return;
-    }
-
-    const success = await joinGameRoom(joinRoomId, user.id);
-    if (success) {
-      setRoomId(joinRoomId);
-      setPlayerNumber(1);
-      // Don't set waiting state for player 2
+    const matchedRoomId = await backend.quickMatch(user.id, boardSize, {
+      capacity,
+      timeControl,
+      abandonGraceSeconds,
+      variant: createVariant(variant, boardSize),
+    });
+    if (matchedRoomId) {
+      navigate({ name: "room", roomId: matchedRoomId });
     } else {
-      setError("Failed to join game room");
+      setError("Failed to find a match");
     }
     setIsJoining(false);
   };
 
-  const isCorner = (row: number, col: number) => {
-    return (
-      (row === 0 && col === 0) ||
-      (row === 0 && col === boardSize.cols - 1) ||
-      (row === boardSize.rows - 1 && col === 0) ||
-      (row === boardSize.rows - 1 && col === boardSize.cols - 1)
-    );
+  const handleJoinRoom = () => {
+    if (!joinRoomId) return;
+    navigate({ name: "join", roomId: joinRoomId.trim() });
   };
 
-  const isEdge = (row: number, col: number) => {
-    return (
-      row === 0 ||
-      col === 0 ||
-      row === boardSize.rows - 1 ||
-      col === boardSize.cols - 1
-    );
-  };
+  // Every move is checked against the rules before the game is shown
+  const handleOpenRecord = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again
+    e.target.value = "";
+    if (!file) return;
 
-  const getCriticalMass = (row: number, col: number) => {
-    if (isCorner(row, col)) return 2;
-    if (isEdge(row, col)) return 3;
-    return 4;
+    setError(null);
+    try {
+      setReplayRecord(readGameRecord(await file.text()));
+    } catch (error) {
+      console.error("Error opening game record:", error);
+      setError((error as Error).message);
+    }
   };
 
-  const getAdjacentCells = (row: number, col: number) => {
-    const adjacent = [];
-    if (row > 0) adjacent.push({ row: row - 1, col });
-    if (row < boardSize.rows - 1) adjacent.push({ row: row + 1, col });
-    if (col > 0) adjacent.push({ row, col: col - 1 });
-    if (col < boardSize.cols - 1) adjacent.push({ row, col: col + 1 });
-    return adjacent;
+  const handleStartGame = async () => {
+    if (!user || !roomId) return;
+    setIsJoining(true);
+    setError(null);
+    const success = await backend.startRoom(roomId, user.id);
+    if (!success) {
+      setError("Failed to start the game");
+    }
+    setIsJoining(false);
   };
 
-  const checkExplosion = (board: any[][], row: number, col: number) => {
-    // Queue to store cells that need to be checked for explosion
-    const queue: Array<{ row: number; col: number }> = [{ row, col }];
-
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      const criticalMass = getCriticalMass(current.row, current.col);
-
-      if (board[current.row][current.col].count >= criticalMass) {
-        // Reduce the count by critical mass
-        board[current.row][current.col].count -= criticalMass;
+  const handleAddBot = async () => {
+    if (!user || !roomId) return;
+    setIsJoining(true);
+    setError(null);
+    const success = await backend.addBot(roomId, user.id, botLevel);
+    if (!success) {
+      setError("Failed to add a bot");
+    }
+    setIsJoining(false);
+  };
 
-        // Clear player if no atoms remain
-        if (board[current.row][current.col].count === 0) {
-          board[current.row][current.col].player = null;
-        }
+  const handleSendChat = async (kind: ChatMessage["kind"], body: string) => {
+    if (!roomId) return false;
 
-        // Get adjacent cells and update them
-        const adjacent = getAdjacentCells(current.row, current.col);
+    const message = await backend.sendChatMessage(roomId, kind, body);
+    if (!message) return false;
 
-        adjacent.forEach(({ row: adjRow, col: adjCol }) => {
-          board[adjRow][adjCol].count++;
-          board[adjRow][adjCol].player = currentPlayer;
+    setChatMessages((messages) => addChatMessage(messages, message));
+    return true;
+  };
 
-          // Add to queue only if this cell might explode
-          if (board[adjRow][adjCol].count >= getCriticalMass(adjRow, adjCol)) {
-            queue.push({ row: adjRow, col: adjCol });
-          }
-        });
-      }
+  const handleRematch = async () => {
+    if (!roomId || !user) return;
+    setError(null);
+    if (!(await backend.requestRematch(roomId, user.id))) {
+      setError("Failed to request a rematch");
     }
   };
 
-  const getActivePlayers = (board: any[][]) => {
-    const active = new Set<number>();
-
-    for (let row = 0; row < boardSize.rows; row++) {
-      for (let col = 0; col < boardSize.cols; col++) {
-        if (board[row][col].count > 0 && board[row][col].player !== null) {
-          active.add(board[row][col].player);
-        }
-      }
+  const handleResign = async () => {
+    if (!roomId) return;
+    setError(null);
+    setIsConfirmingResign(false);
+    try {
+      await backend.resign(roomId);
+    } catch (error) {
+      console.error("Failed to resign:", error);
+      setError(
+        error instanceof MoveRejectedError ? error.message : "Failed to resign"
+      );
     }
-
-    return Array.from(active);
   };
 
-  const getTotalAtoms = (board: any[][]) => {
-    let total = 0;
+  const handleDrawResponse = async (accept: boolean) => {
+    if (!roomId) return;
+    setError(null);
+    try {
+      await backend.respondToDraw(roomId, accept);
+    } catch (error) {
+      console.error("Failed to respond to draw:", error);
+      setError(
+        error instanceof MoveRejectedError
+          ? error.message
+          : "Failed to respond to the draw offer"
+      );
+    }
+  };
 
-    for (let row = 0; row < boardSize.rows; row++) {
-      for (let col = 0; col < boardSize.cols; col++) {
-        total += board[row][col].count;
-      }
+  const handleTakebackResponse = async (accept: boolean) => {
+    if (!roomId) return;
+    setError(null);
+    try {
+      await backend.respondToTakeback(roomId, accept);
+    } catch (error) {
+      console.error("Failed to respond to takeback:", error);
+      setError(
+        error instanceof MoveRejectedError
+          ? error.message
+          : "Failed to respond to the takeback request"
+      );
     }
+  };
 
-    return total;
+  const handleClaimAbandonment = async () => {
+    if (!roomId) return;
+    setError(null);
+    try {
+      await backend.claimAbandonment(roomId);
+    } catch (error) {
+      console.error("Failed to claim abandoned game:", error);
+      setError(
+        error instanceof MoveRejectedError
+          ? error.message
+          : "Failed to claim the game"
+      );
+    }
   };
 
   const handleCellClick = async (row: number, col: number) => {
     // Don't allow moves if it's not the player's turn or game is waiting/over
-    if (gameOver || playerNumber !== currentPlayer || isWaiting) {
+    if (
+      gameOver ||
+      playerNumber !== currentPlayer ||
+      isWaiting ||
+      animation.isAnimating
+    ) {
       console.log("Invalid move:", {
         gameOver,
         playerNumber,
         currentPlayer,
         isWaiting,
+        isAnimating: animation.isAnimating,
       });
       return;
     }
 
-    // Don't allow capturing opponent's cells
-    if (board[row][col].count > 0 && board[row][col].player !== currentPlayer) {
-      console.log("Cannot capture opponent cell");
+    const moveError = getMoveError(gameState, {
+      row,
+      col,
+      player: currentPlayer,
+    });
+    if (moveError) {
+      console.log("Invalid move:", moveError);
       return;
     }
 
     console.log("Processing move:", { row, col, playerNumber, currentPlayer });
 
-    const newBoard = JSON.parse(JSON.stringify(board));
-    newBoard[row][col].count++;
-    newBoard[row][col].player = currentPlayer;
-
-    checkExplosion(newBoard, row, col);
-
-    const activePlayers = getActivePlayers(newBoard);
-    const newGameOver =
-      activePlayers.length === 1 && getTotalAtoms(newBoard) > 1;
-    const newWinner = newGameOver ? activePlayers[0] : null;
-    const nextPlayer = (currentPlayer + 1) % players.length;
-
-    const newState = {
-      board: newBoard,
-      currentPlayer: nextPlayer,
-      gameOver: newGameOver,
-      winner: newWinner,
-    };
-
-    console.log("Updating game state:", newState);
-
-    const success = await updateGameState(roomId!, newState);
-    if (!success) {
-      console.error("Failed to update game state");
+    setError(null);
+    try {
+      await backend.submitMove(roomId!, row, col);
+    } catch (error) {
+      console.error("Failed to submit move:", error);
+      setError(
+        error instanceof MoveRejectedError
+          ? error.message
+          : "Failed to submit move"
+      );
     }
   };
 
-  const renderAtoms = (count: number, player: number | null) => {
-    if (count === 0) return null;
-
-    const color = player !== null ? players[player].color : "#ccc";
-
-    switch (count) {
-      case 1:
-        return (
-          <div className="absolute inset-0 flex items-center justify-center">
-            <div
-              className="w-3 h-3 rounded-full"
-              style={{ backgroundColor: color }}
-            ></div>
-          </div>
-        );
-      case 2:
-        return (
-          <div className="absolute inset-0 grid grid-cols-2 gap-1 p-1">
-            <div
-              className="w-2 h-2 rounded-full"
-              style={{ backgroundColor: color }}
-            ></div>
-            <div
-              className="w-2 h-2 rounded-full"
-              style={{ backgroundColor: color }}
-            ></div>
-          </div>
-        );
-      case 3:
-        return (
-          <div className="absolute inset-0 flex flex-wrap items-center justify-center gap-1 p-1">
-            <div
-              className="w-2 h-2 rounded-full"
-              style={{ backgroundColor: color }}
-            ></div>
-            <div
-              className="w-2 h-2 rounded-full"
-              style={{ backgroundColor: color }}
-            ></div>
-            <div
-              className="w-2 h-2 rounded-full"
-              style={{ backgroundColor: color }}
-            ></div>
-          </div>
-        );
-      default:
-        return (
-          <div className="absolute inset-0 grid grid-cols-2 grid-rows-2 gap-1 p-1">
-            {Array(count)
-              .fill(null)
-              .map((_, i) => (
-                <div
-                  key={i}
-                  className="w-2 h-2 rounded-full"
-                  style={{ backgroundColor: color }}
-                ></div>
-              ))}
-          </div>
-        );
-    }
-  };
+  if (isLocal) {
+    return <LocalGame onExit={() => setIsLocal(false)} />;
+  }
 
   if (!user) {
     return (
@@ -427,8 +614,21 @@ export default function ChainReaction() {
           Chain Reaction Online
         </h1>
         <div className="flex flex-col gap-4 w-full max-w-md">
-          <Button onClick={handleSignIn} className="w-full">
-            Sign in with Google
+          {backend.isAvailable ? (
+            <Button onClick={handleSignIn} className="w-full">
+              {backend.signInLabel}
+            </Button>
+          ) : (
+            <div className="px-4 py-2 text-sm text-gray-600 bg-gray-100 rounded-md">
+              Online play isn't available in this build.
+            </div>
+          )}
+          <Button
+            onClick={() => setIsLocal(true)}
+            variant="outline"
+            className="w-full"
+          >
+            Play Locally
           </Button>
           {error && (
             <div className="px-4 py-2 text-red-800 bg-red-100 rounded-md">
@@ -440,6 +640,36 @@ export default function ChainReaction() {
     );
   }
 
+  if (replayRoomId) {
+    return (
+      <GameReplay roomId={replayRoomId} onClose={() => setReplayRoomId(null)} />
+    );
+  }
+
+  if (replayRecord) {
+    return (
+      <GameReplay record={replayRecord} onClose={() => setReplayRecord(null)} />
+    );
+  }
+
+  if (route.name === "profile") {
+    return (
+      <ProfilePage
+        userId={user.id}
+        onClose={() => navigate({ name: "home" })}
+      />
+    );
+  }
+
+  if (route.name === "leaderboard") {
+    return (
+      <LeaderboardPage
+        userId={user.id}
+        onClose={() => navigate({ name: "home" })}
+      />
+    );
+  }
+
   if (!roomId) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen p-4 bg-gray-50">
@@ -456,15 +686,96 @@ export default function ChainReaction() {
           </Button>
         </div>
         <div className="flex flex-col gap-4 w-full max-w-md">
-          <div className="text-sm text-gray-600">
-            Signed in as: {user.email}
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Avatar profile={profiles[user.id]} size={24} />
+            <span className="flex-1">
+              Signed in as {profiles[user.id]?.display_name ?? user.name}
+              {profiles[user.id] && ` · ${profiles[user.id].rating}`}
+            </span>
+            <Button
+              onClick={() => navigate({ name: "profile" })}
+              variant="outline"
+              className="px-3 py-1"
+            >
+              Profile
+            </Button>
+            <Button
+              onClick={() => navigate({ name: "leaderboard" })}
+              variant="outline"
+              className="px-3 py-1"
+            >
+              Leaderboard
+            </Button>
+          </div>
+          <BoardSizePicker
+            value={boardSize}
+            onChange={setBoardSize}
+            disabled={isJoining}
+          />
+          <VariantSelect
+            value={variant}
+            onChange={setVariant}
+            disabled={isJoining}
+          />
+          <PlayerCountSelect
+            value={capacity}
+            onChange={setCapacity}
+            disabled={isJoining}
+          />
+          <TimeControlSelect
+            value={timeControl}
+            onChange={setTimeControl}
+            disabled={isJoining}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={isPublic}
+              onChange={(e) => setIsPublic(e.target.checked)}
+              disabled={isJoining}
+            />
+            List my room in the lobby
+          </label>
+          <AbandonGraceSelect
+            value={abandonGraceSeconds}
+            onChange={setAbandonGraceSeconds}
+            disabled={isJoining}
+          />
+          <div className="flex gap-2">
+            <Button
+              onClick={handleCreateRoom}
+              className="flex-1"
+              disabled={isJoining}
+            >
+              {isJoining ? "Creating Room..." : "Create New Room"}
+            </Button>
+            <Button
+              onClick={handleQuickMatch}
+              variant="secondary"
+              className="flex-1"
+              disabled={isJoining}
+            >
+              Quick match
+            </Button>
           </div>
           <Button
-            onClick={handleCreateRoom}
+            onClick={() => setIsLocal(true)}
+            variant="outline"
             className="w-full"
             disabled={isJoining}
           >
-            {isJoining ? "Creating Room..." : "Create New Room"}
+            Play Locally
+          </Button>
+          <Button asChild variant="outline" className="w-full">
+            <label>
+              Open Game Record
+              <input
+                type="file"
+                accept={`${GAME_RECORD_EXTENSION},.txt`}
+                onChange={handleOpenRecord}
+                className="hidden"
+              />
+            </label>
           </Button>
           <div className="relative">
             <div className="absolute inset-x-0 -top-6 text-center">
@@ -484,6 +795,13 @@ export default function ChainReaction() {
               >
                 {isJoining ? "Joining..." : "Join Room"}
               </Button>
+              <Button
+                onClick={() => setReplayRoomId(joinRoomId)}
+                variant="outline"
+                disabled={!joinRoomId || isJoining}
+              >
+                Replay
+              </Button>
             </div>
           </div>
           {error && (
@@ -491,6 +809,14 @@ export default function ChainReaction() {
               {error}
             </div>
           )}
+          <OpenRoomList
+            rooms={openRooms}
+            userId={user.id}
+            onJoin={(openRoomId) =>
+              navigate({ name: "join", roomId: openRoomId })
+            }
+            disabled={isJoining}
+          />
         </div>
       </div>
     );
@@ -509,112 +835,236 @@ export default function ChainReaction() {
 
       {isWaiting ? (
         <div className="mb-4 px-4 py-2 bg-blue-100 text-blue-800 rounded-md">
-          <p>Waiting for opponent to join...</p>
-          <p className="mt-2 text-sm">
-            Share this Room ID:{" "}
-            <span className="font-mono font-bold">{roomId}</span>
+          <p>
+            Waiting for players to join... ({seats.length}/{roomCapacity})
           </p>
+          <div className="mt-2">
+            <InviteLinkButton roomId={roomId} />
+          </div>
+          {isHost && (
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <Button
+                onClick={handleStartGame}
+                disabled={seats.length < MIN_PLAYERS || isJoining}
+              >
+                Start with {seats.length} players
+              </Button>
+              <BotLevelSelect
+                value={botLevel}
+                onChange={(level) => level && setBotLevel(level)}
+                disabled={isJoining}
+              />
+              <Button
+                onClick={handleAddBot}
+                variant="outline"
+                disabled={seats.length >= roomCapacity || isJoining}
+              >
+                Add bot
+              </Button>
+            </div>
+          )}
         </div>
       ) : (
         <>
-          <div className="mb-4 flex items-center gap-4">
-            {players.map((player) => (
-              <div
-                key={player.id}
-                className={`flex items-center gap-2 px-3 py-1 rounded-full ${
-                  currentPlayer === player.id && !gameOver
-                    ? "ring-2 ring-offset-2 ring-[" + player.color + "]"
-                    : ""
-                } ${playerNumber === player.id ? "font-bold" : ""}`}
-                style={{
-                  backgroundColor: `${player.color}20`,
-                  color: player.color,
-                }}
+          <PlayerList
+            players={players}
+            eliminated={gameState.eliminated}
+            currentPlayer={currentPlayer}
+            playerNumber={playerNumber}
+            gameOver={gameOver}
+            clocks={clocks}
+            connections={connections}
+          />
+
+          <SpectatorBar
+            isSpectator={isSpectator}
+            spectatorCount={spectatorCount}
+            toMove={gameOver ? null : (players[currentPlayer] ?? null)}
+          />
+
+          {error && (
+            <div className="mb-4 px-4 py-2 text-red-800 bg-red-100 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {canClaimAbandonment && (
+            <div className="mb-4 flex items-center gap-4 px-4 py-2 bg-amber-100 text-amber-800 rounded-md">
+              Everyone else has left the game.
+              <Button onClick={handleClaimAbandonment}>Claim win</Button>
+            </div>
+          )}
+
+          {isInGame && takebackVotes.length > 0 && !hasVotedTakeback && (
+            <div className="mb-4 flex items-center gap-4 px-4 py-2 bg-blue-100 text-blue-800 rounded-md">
+              {describeSeats(takebackVotes.slice(0, 1))} asks to take back their
+              last move.
+              <Button onClick={() => handleTakebackResponse(true)}>
+                Allow
+              </Button>
+              <Button
+                onClick={() => handleTakebackResponse(false)}
+                variant="outline"
               >
-                <div
-                  className="w-3 h-3 rounded-full"
-                  style={{ backgroundColor: player.color }}
-                ></div>
-                <span className="font-medium">
-                  Player {player.id + 1}
-                  {playerNumber === player.id ? " (You)" : ""}
-                </span>
+                Refuse
+              </Button>
+            </div>
+          )}
+
+          {isInGame && drawOffers.length > 0 && !hasOfferedDraw && (
+            <div className="mb-4 flex items-center gap-4 px-4 py-2 bg-blue-100 text-blue-800 rounded-md">
+              {describeSeats(drawOffers)}{" "}
+              {drawOffers.length === 1 ? "offers" : "offer"} a draw.
+              <Button onClick={() => handleDrawResponse(true)}>Accept</Button>
+              <Button
+                onClick={() => handleDrawResponse(false)}
+                variant="outline"
+              >
+                Decline
+              </Button>
+            </div>
+          )}
+
+          {gameOver &&
+            !isSpectator &&
+            rematchVotes.some((seat) => seat !== playerNumber) &&
+            !hasVotedRematch && (
+              <div className="mb-4 px-4 py-2 bg-blue-100 text-blue-800 rounded-md">
+                {describeSeats(rematchVotes)}{" "}
+                {rematchVotes.length === 1 ? "wants" : "want"} a rematch
               </div>
-            ))}
-          </div>
+            )}
 
-          {gameOver && winner !== null && (
-            <div className="mb-4 px-4 py-2 bg-yellow-100 text-yellow-800 rounded-md">
-              Player {winner + 1} wins!
+          {gameOver && (
+            <GameResult
+              winner={winner}
+              reason={resultReason}
+              standings={gameState.standings}
+              playerNumber={playerNumber}
+            />
+          )}
+
+          <SeriesScore players={players} wins={seriesWins} />
+
+          {formatVariant(gameState.variant) !== "standard" && (
+            <div className="mb-2 text-sm text-gray-600">
+              Rules: {getVariantLabel(gameState.variant)}
             </div>
           )}
 
-          <div className="mb-6 overflow-hidden border-2 border-gray-300 rounded-lg">
-            <div
-              className="grid gap-px bg-gray-300"
-              style={{
-                gridTemplateColumns: `repeat(${boardSize.cols}, minmax(0, 1fr))`,
-                gridTemplateRows: `repeat(${boardSize.rows}, minmax(0, 1fr))`,
-              }}
-            >
-              {board.map((row, rowIndex) =>
-                row.map((cell, colIndex) => (
-                  <div
-                    key={`${rowIndex}-${colIndex}`}
-                    className="relative flex items-center justify-center w-12 h-12 bg-white cursor-pointer transition-colors hover:bg-gray-100"
-                    onClick={() => handleCellClick(rowIndex, colIndex)}
+          <GameBoard
+            board={animation.board}
+            players={players}
+            walls={gameState.variant.walls}
+            onCellClick={isSpectator ? undefined : handleCellClick}
+            flights={animation.flights}
+            flightDurationMs={WAVE_DURATION_MS[animationSpeed]}
+          />
+
+          <AnimationSpeedSelect
+            value={animationSpeed}
+            onChange={setAnimationSpeed}
+          />
+
+          {isInGame && (
+            <div className="mb-4 flex gap-4">
+              {isConfirmingResign ? (
+                <>
+                  <Button onClick={handleResign} variant="destructive">
+                    Confirm Resign
+                  </Button>
+                  <Button
+                    onClick={() => setIsConfirmingResign(false)}
+                    variant="outline"
                   >
-                    {renderAtoms(cell.count, cell.player)}
-                  </div>
-                ))
+                    Keep Playing
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  onClick={() => setIsConfirmingResign(true)}
+                  variant="outline"
+                >
+                  Resign
+                </Button>
+              )}
+              {(canRequestTakeback || hasVotedTakeback) && (
+                <Button
+                  onClick={() => handleTakebackResponse(true)}
+                  variant="outline"
+                  disabled={hasVotedTakeback || animation.isAnimating}
+                >
+                  {hasVotedTakeback ? "Takeback Requested" : "Request Takeback"}
+                </Button>
+              )}
+              {canOfferDraw && (
+                <Button
+                  onClick={() => handleDrawResponse(true)}
+                  variant="outline"
+                  disabled={hasOfferedDraw}
+                >
+                  {hasOfferedDraw ? "Draw Offered" : "Offer Draw"}
+                </Button>
               )}
             </div>
-          </div>
+          )}
 
           <div className="flex gap-4">
+            {!isSpectator && (
+              <Button
+                onClick={handleRematch}
+                variant="outline"
+                className="px-6"
+                disabled={!gameOver || hasVotedRematch}
+              >
+                {hasVotedRematch
+                  ? "Waiting for opponent..."
+                  : rematchVotes.length > 0
+                    ? "Accept Rematch"
+                    : "Rematch"}
+              </Button>
+            )}
+
             <Button
-              onClick={async () => {
-                const newBoard = Array(boardSize.rows)
-                  .fill(null)
-                  .map(() =>
-                    Array(boardSize.cols)
-                      .fill(null)
-                      .map(() => ({ count: 0, player: null }))
-                  );
-                
-                const newState = {
-                  board: newBoard,
-                  currentPlayer: 0,
-                  gameOver: false,
-                  winner: null,
-                };
-                
-                const success = await updateGameState(roomId!, newState);
-                if (!success) {
-                  console.error("Failed to reset game state");
-                }
-              }}
+              onClick={() => setReplayRoomId(roomId)}
               variant="outline"
               className="px-6"
-              disabled={!gameOver || winner === null}
+              disabled={!gameOver}
             >
-              Reset Game
+              Watch Replay
             </Button>
-            
+
+            <CopyPositionButton state={gameState} />
+
             <Button
               onClick={() => {
-                setRoomId(null);
+                navigate({ name: "home" });
                 setPlayerNumber(null);
                 setIsWaiting(false);
                 resetGame();
               }}
               className="px-6"
             >
-              Leave Game
+              {isSpectator ? "Stop Watching" : "Leave Game"}
             </Button>
           </div>
         </>
       )}
+
+      <ChatPanel
+        messages={chatMessages}
+        opponents={seats.flatMap((seat) =>
+          seat.user_id && seat.user_id !== user.id
+            ? [
+                {
+                  userId: seat.user_id,
+                  name: players[seat.seat].name ?? getColorName(seat.color),
+                },
+              ]
+            : []
+        )}
+        onSend={playerNumber !== null ? handleSendChat : undefined}
+      />
     </div>
   );
 }
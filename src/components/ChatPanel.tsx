@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import {
+  CHAT_ERROR_MESSAGES,
+  getChatError,
+  MAX_CHAT_LENGTH,
+  QUICK_REACTIONS,
+} from "@/lib/chat";
+import type { ChatMessage } from "@/lib/types";
+
+// Someone else seated at the table, whose messages can be muted
+export interface ChatOpponent {
+  userId: string;
+  name: string;
+}
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  opponents?: ChatOpponent[];
+  // Omit to show the chat read-only, e.g. for spectators and replays
+  onSend?: (kind: ChatMessage["kind"], body: string) => Promise<boolean>;
+}
+
+export default function ChatPanel({
+  messages,
+  opponents = [],
+  onSend,
+}: ChatPanelProps) {
+  const [draft, setDraft] = useState("");
+  const [mutedIds, setMutedIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const lastSentAtRef = useRef<number | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const visible = messages.filter(
+    (message) => !mutedIds.includes(message.user_id)
+  );
+
+  const toggleMute = (userId: string, isMuted: boolean) =>
+    setMutedIds((ids) =>
+      isMuted ? [...ids, userId] : ids.filter((id) => id !== userId)
+    );
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [visible.length]);
+
+  const send = async (kind: ChatMessage["kind"], body: string) => {
+    if (!onSend) return;
+
+    const now = Date.now();
+    const chatError = getChatError(body, lastSentAtRef.current, now);
+    if (chatError) {
+      setError(CHAT_ERROR_MESSAGES[chatError]);
+      return;
+    }
+
+    lastSentAtRef.current = now;
+    setError(null);
+    if (await onSend(kind, body)) {
+      if (kind === "text") setDraft("");
+    } else {
+      setError("Your message couldn't be sent");
+    }
+  };
+
+  return (
+    <div className="flex flex-col w-full max-w-md gap-2 mt-4">
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span className="font-medium">Chat</span>
+        <div className="flex flex-wrap justify-end gap-x-3">
+          {opponents.map((opponent) => (
+            <label key={opponent.userId} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={mutedIds.includes(opponent.userId)}
+                onChange={(e) => toggleMute(opponent.userId, e.target.checked)}
+              />
+              Mute {opponent.name}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <ul
+        ref={listRef}
+        className="h-40 px-3 py-2 overflow-y-auto text-sm bg-white border rounded-md"
+      >
+        {visible.length === 0 && (
+          <li className="text-gray-400">No messages yet</li>
+        )}
+        {visible.map((message) => (
+          <li key={message.id}>
+            <span className="font-medium text-gray-800">
+              {message.author_name}:
+            </span>{" "}
+            <span
+              className={
+                message.kind === "reaction" ? "font-semibold" : undefined
+              }
+            >
+              {message.body}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {onSend && (
+        <>
+          <div className="flex flex-wrap gap-1">
+            {QUICK_REACTIONS.map((reaction) => (
+              <Button
+                key={reaction}
+                onClick={() => send("reaction", reaction)}
+                variant="outline"
+                size="sm"
+              >
+                {reaction}
+              </Button>
+            ))}
+          </div>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              send("text", draft);
+            }}
+          >
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={MAX_CHAT_LENGTH}
+              placeholder="Say something..."
+              className="flex-1 px-3 py-1 border rounded-md"
+            />
+            <Button type="submit" disabled={!draft.trim()}>
+              Send
+            </Button>
+          </form>
+        </>
+      )}
+
+      {error && <div className="text-sm text-red-700">{error}</div>}
+    </div>
+  );
+}
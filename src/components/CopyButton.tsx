@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { Check, Copy } from "lucide-react";
+import { Button } from "./ui/button";
+
+const COPIED_MS = 2000;
+
+interface CopyButtonProps {
+  // Read when clicked, so it's always current
+  getText: () => string;
+  label: string;
+  copiedLabel: string;
+  // Shown above the text when the clipboard can't be used
+  promptLabel: string;
+}
+
+export default function CopyButton({
+  getText,
+  label,
+  copiedLabel,
+  promptLabel,
+}: CopyButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    const text = getText();
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch (error) {
+      // Clipboard access can be refused; the text is still selectable
+      console.error("Failed to copy:", error);
+      window.prompt(promptLabel, text);
+    }
+  };
+
+  return (
+    <Button onClick={handleCopy} variant="outline">
+      {copied ? <Check /> : <Copy />}
+      {copied ? copiedLabel : label}
+    </Button>
+  );
+}
@@ -0,0 +1,19 @@
+import CopyButton from "./CopyButton";
+import { encodePosition, type GameState } from "@/lib/engine";
+
+interface CopyPositionButtonProps {
+  state: GameState;
+}
+
+// Copies the position in text form, to paste into a bug report or start a
+// local game from
+export default function CopyPositionButton({ state }: CopyPositionButtonProps) {
+  return (
+    <CopyButton
+      getText={() => encodePosition(state)}
+      label="Copy position"
+      copiedLabel="Position copied"
+      promptLabel="Copy this position:"
+    />
+  );
+}
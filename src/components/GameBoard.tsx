@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import {
+  getBoardSize,
+  type Board,
+  type BoardSize,
+  type Position,
+} from "@/lib/engine";
+import type { PlayerInfo } from "@/lib/players";
+import type { Flight } from "@/hooks/useCascadeAnimation";
+
+interface GameBoardProps {
+  board: Board;
+  players: PlayerInfo[];
+  // Blocked cells, drawn filled in and never clickable
+  walls?: Position[];
+  // Omit to render a read-only board
+  onCellClick?: (row: number, col: number) => void;
+  // Atoms travelling between cells during an explosion wave
+  flights?: Flight[];
+  flightDurationMs?: number;
+}
+
+function FlyingAtom({
+  flight,
+  boardSize,
+  color,
+  durationMs,
+}: {
+  flight: Flight;
+  boardSize: BoardSize;
+  color: string;
+  durationMs: number;
+}) {
+  const [hasLaunched, setHasLaunched] = useState(false);
+
+  // Start at the source cell, then move on the next frame so the transition
+  // runs
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setHasLaunched(true));
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const { row, col } = hasLaunched ? flight.to : flight.from;
+
+  return (
+    <div
+      className="absolute w-2 h-2 -ml-1 -mt-1 rounded-full"
+      style={{
+        backgroundColor: color,
+        left: `${((col + 0.5) / boardSize.cols) * 100}%`,
+        top: `${((row + 0.5) / boardSize.rows) * 100}%`,
+        transition: `left ${durationMs}ms ease-out, top ${durationMs}ms ease-out`,
+      }}
+    ></div>
+  );
+}
+
+export default function GameBoard({
+  board,
+  players,
+  walls = [],
+  onCellClick,
+  flights = [],
+  flightDurationMs = 0,
+}: GameBoardProps) {
+  const boardSize = getBoardSize(board);
+  // Shrink cells on wide boards so they still fit on screen
+  const cellSize = boardSize.cols > 10 ? "w-8 h-8" : "w-12 h-12";
+
+  const renderAtoms = (count: number, player: number | null) => {
+    if (count === 0) return null;
+
+    const color = player !== null ? players[player].color : "#ccc";
+
+    switch (count) {
+      case 1:
+        return (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div
+              className="w-3 h-3 rounded-full"
+              style={{ backgroundColor: color }}
+            ></div>
+          </div>
+        );
+      case 2:
+        return (
+          <div className="absolute inset-0 grid grid-cols-2 gap-1 p-1">
+            <div
+              className="w-2 h-2 rounded-full"
+              style={{ backgroundColor: color }}
+            ></div>
+            <div
+              className="w-2 h-2 rounded-full"
+              style={{ backgroundColor: color }}
+            ></div>
+          </div>
+        );
+      case 3:
+        return (
+          <div className="absolute inset-0 flex flex-wrap items-center justify-center gap-1 p-1">
+            <div
+              className="w-2 h-2 rounded-full"
+              style={{ backgroundColor: color }}
+            ></div>
+            <div
+              className="w-2 h-2 rounded-full"
+              style={{ backgroundColor: color }}
+            ></div>
+            <div
+              className="w-2 h-2 rounded-full"
+              style={{ backgroundColor: color }}
+            ></div>
+          </div>
+        );
+      default:
+        return (
+          <div className="absolute inset-0 grid grid-cols-2 grid-rows-2 gap-1 p-1">
+            {Array(count)
+              .fill(null)
+              .map((_, i) => (
+                <div
+                  key={i}
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: color }}
+                ></div>
+              ))}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="mb-6 overflow-hidden border-2 border-gray-300 rounded-lg">
+      <div
+        className="relative grid gap-px bg-gray-300"
+        style={{
+          gridTemplateColumns: `repeat(${boardSize.cols}, minmax(0, 1fr))`,
+          gridTemplateRows: `repeat(${boardSize.rows}, minmax(0, 1fr))`,
+        }}
+      >
+        {board.map((row, rowIndex) =>
+          row.map((cell, colIndex) =>
+            walls.some(
+              (wall) => wall.row === rowIndex && wall.col === colIndex
+            ) ? (
+              <div
+                key={`${rowIndex}-${colIndex}`}
+                className={`${cellSize} bg-gray-400`}
+                aria-label="Wall"
+              ></div>
+            ) : (
+              <div
+                key={`${rowIndex}-${colIndex}`}
+                className={`relative flex items-center justify-center ${cellSize} bg-white ${
+                  onCellClick
+                    ? "cursor-pointer transition-colors hover:bg-gray-100"
+                    : ""
+                }`}
+                onClick={() => onCellClick?.(rowIndex, colIndex)}
+              >
+                {renderAtoms(cell.count, cell.player)}
+              </div>
+            )
+          )
+        )}
+        {flights.length > 0 && (
+          <div className="absolute inset-0 pointer-events-none">
+            {flights.map((flight) => (
+              <FlyingAtom
+                key={flight.id}
+                flight={flight}
+                boardSize={boardSize}
+                color={players[flight.player].color}
+                durationMs={flightDurationMs}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
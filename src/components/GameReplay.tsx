@@ -0,0 +1,341 @@
+import { useEffect, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Pause,
+  Play,
+  SkipBack,
+  SkipForward,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import GameBoard from "./GameBoard";
+import ChatPanel from "./ChatPanel";
+import CopyPositionButton from "./CopyPositionButton";
+import type { ChatMessage, GameRoom, MoveRecord } from "@/lib/types";
+import {
+  createGameState,
+  getFirstPlayer,
+  hashBoard,
+  replayMoves,
+  type Draw,
+  type Forfeit,
+  type GameState,
+  type Move,
+} from "@/lib/engine";
+import { BOT_LEVEL_LABELS } from "@/lib/bots";
+import {
+  getGameRecordFileName,
+  writeGameRecord,
+  type GameRecord,
+} from "@/lib/gameRecord";
+import { getRecordedTurn } from "@/lib/moveValidator";
+import { PLAYERS, type PlayerInfo } from "@/lib/players";
+import { useBackend } from "@/hooks/useBackend";
+import { useProfiles } from "@/hooks/useProfiles";
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+// Replays either the latest game in a room or a record opened from a file
+type GameReplayProps = { onClose: () => void } & (
+  | { roomId: string; record?: undefined }
+  | { roomId?: undefined; record: GameRecord }
+);
+
+// A room keeps the moves of every game played in it; replay the one now in
+// the room
+function getLatestGame(room: GameRoom, moves: MoveRecord[]) {
+  return moves.filter((move) => move.game_number === (room.game_number ?? 1));
+}
+
+function getPlayerName(players: PlayerInfo[], seat: number) {
+  return players[seat]?.name ?? `Player ${seat + 1}`;
+}
+
+function describeTurn(turn: Move | Forfeit | Draw, players: PlayerInfo[]) {
+  const name = getPlayerName(players, turn.player);
+  if ("draw" in turn) return `${name} agreed to a draw`;
+  if ("forfeit" in turn) return `${name} forfeited`;
+  return `${name} played (${turn.row + 1}, ${turn.col + 1})`;
+}
+
+function downloadText(text: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function GameReplay({
+  roomId,
+  record,
+  onClose,
+}: GameReplayProps) {
+  const backend = useBackend();
+  // The room and its full history, kept to write a record from
+  const [room, setRoom] = useState<GameRoom | null>(null);
+  const [history, setHistory] = useState<MoveRecord[]>([]);
+  const [turns, setTurns] = useState<Array<Move | Forfeit | Draw>>([]);
+  // When each turn was played, where known
+  const [turnTimes, setTurnTimes] = useState<string[]>([]);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [players, setPlayers] = useState<PlayerInfo[]>(PLAYERS);
+  const [states, setStates] = useState<GameState[]>([]);
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const profiles = useProfiles(
+    (room?.seats ?? []).flatMap((seat) => (seat.user_id ? [seat.user_id] : []))
+  );
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    if (record) {
+      setRoom(null);
+      setPlayers(record.players);
+      setTurns(record.turns);
+      setTurnTimes([]);
+      setChatMessages([]);
+      setStates(record.states);
+      setStep(0);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    const loadReplay = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      const [room, history, chat] = await Promise.all([
+        backend.getRoom(roomId),
+        backend.getMoveHistory(roomId),
+        backend.getChatMessages(roomId),
+      ]);
+      if (!isCurrent) return;
+
+      if (!room || !history) {
+        setError("Failed to load game");
+        setIsLoading(false);
+        return;
+      }
+
+      const gameMoves = getLatestGame(room, history);
+      try {
+        const { size, playerCount, variant } = room.current_state;
+        const replayed = replayMoves(
+          createGameState(
+            size,
+            playerCount,
+            getFirstPlayer(room.game_number ?? 1, playerCount),
+            variant
+          ),
+          gameMoves.map(getRecordedTurn)
+        );
+
+        const mismatch = gameMoves.findIndex(
+          (move, i) => hashBoard(replayed[i + 1].board) !== move.board_hash
+        );
+        if (mismatch !== -1) {
+          console.warn("Replay diverged from recorded board at move:", {
+            moveNumber: gameMoves[mismatch].move_number,
+          });
+          setError(
+            `Replay diverges from the recorded game at move ${gameMoves[mismatch].move_number}`
+          );
+        }
+
+        setPlayers(
+          room.seats.map((seat) => ({ id: seat.seat, color: seat.color }))
+        );
+        setRoom(room);
+        setHistory(history);
+        setTurns(gameMoves.map(getRecordedTurn));
+        setTurnTimes(gameMoves.map((move) => move.created_at));
+        setChatMessages(chat ?? []);
+        setStates(replayed);
+        setStep(0);
+      } catch (error) {
+        console.error("Error replaying moves:", error);
+        setError("This game's moves could not be replayed");
+      }
+      setIsLoading(false);
+    };
+
+    loadReplay();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [backend, roomId, record]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    if (step >= states.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setStep(step + 1), 1000 / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, speed, states.length]);
+
+  const lastStep = Math.max(states.length - 1, 0);
+  const state = states[step];
+  const lastTurn = step > 0 ? turns[step - 1] : null;
+  // Show the chat as it stood up to the next move
+  const nextTurnTime = step < lastStep ? turnTimes[step] : undefined;
+  const chatSoFar = nextTurnTime
+    ? chatMessages.filter((message) => message.created_at < nextTurnTime)
+    : chatMessages;
+
+  const downloadRecord = () => {
+    if (!room) return;
+    const names = room.seats.map((seat) =>
+      seat.bot
+        ? BOT_LEVEL_LABELS[seat.bot]
+        : (profiles[seat.user_id!]?.display_name ?? undefined)
+    );
+    downloadText(
+      writeGameRecord(room, history, names),
+      getGameRecordFileName(room)
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4 bg-gray-50">
+      <div className="flex items-center justify-between w-full max-w-2xl mb-4">
+        <h1 className="text-3xl font-bold text-gray-800">Game Replay</h1>
+        <Button onClick={onClose} variant="outline" className="px-3 py-1">
+          Back
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mb-4 px-4 py-2 text-red-800 bg-red-100 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-gray-600">Loading game...</div>
+      ) : (
+        state && (
+          <>
+            <div className="mb-4 text-sm text-gray-600">
+              {lastTurn
+                ? `Move ${step} of ${lastStep}: ${describeTurn(lastTurn, players)}`
+                : `Start of game (${lastStep} moves)`}
+            </div>
+
+            {state.gameOver && state.winner !== null && (
+              <div className="mb-4 px-4 py-2 bg-yellow-100 text-yellow-800 rounded-md">
+                {getPlayerName(players, state.winner)} wins!
+              </div>
+            )}
+
+            <GameBoard
+              board={state.board}
+              players={players}
+              walls={state.variant.walls}
+            />
+
+            <input
+              type="range"
+              min={0}
+              max={lastStep}
+              value={step}
+              onChange={(e) => {
+                setIsPlaying(false);
+                setStep(Number(e.target.value));
+              }}
+              className="w-full max-w-md mb-4"
+              aria-label="Jump to move"
+            />
+
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={() => setStep(0)}
+                variant="outline"
+                size="icon"
+                disabled={step === 0}
+                aria-label="First move"
+              >
+                <SkipBack />
+              </Button>
+              <Button
+                onClick={() => setStep(step - 1)}
+                variant="outline"
+                size="icon"
+                disabled={step === 0}
+                aria-label="Previous move"
+              >
+                <ChevronLeft />
+              </Button>
+              <Button
+                onClick={() => {
+                  if (step >= lastStep) setStep(0);
+                  setIsPlaying(!isPlaying);
+                }}
+                size="icon"
+                disabled={lastStep === 0}
+                aria-label={isPlaying ? "Pause" : "Play"}
+              >
+                {isPlaying ? <Pause /> : <Play />}
+              </Button>
+              <Button
+                onClick={() => setStep(step + 1)}
+                variant="outline"
+                size="icon"
+                disabled={step >= lastStep}
+                aria-label="Next move"
+              >
+                <ChevronRight />
+              </Button>
+              <Button
+                onClick={() => setStep(lastStep)}
+                variant="outline"
+                size="icon"
+                disabled={step >= lastStep}
+                aria-label="Last move"
+              >
+                <SkipForward />
+              </Button>
+              <select
+                value={speed}
+                onChange={(e) => setSpeed(Number(e.target.value))}
+                className="h-9 px-2 border rounded-md"
+                aria-label="Playback speed"
+              >
+                {SPEEDS.map((value) => (
+                  <option key={value} value={value}>
+                    {value}x
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex gap-2 mt-4">
+              <CopyPositionButton state={state} />
+              {room?.status === "finished" && (
+                <Button onClick={downloadRecord} variant="outline">
+                  <Download />
+                  Download record
+                </Button>
+              )}
+            </div>
+
+            <ChatPanel messages={chatSoFar} />
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import type { ResultReason } from "@/lib/types";
+
+// Follows "Player N wins"
+const REASON_SUFFIXES: Record<ResultReason, string> = {
+  elimination: "",
+  timeout: " on time",
+  abandonment: " after the others left",
+  resignation: " by resignation",
+  draw: "",
+};
+
+interface GameResultProps {
+  // Null after a draw
+  winner: number | null;
+  reason?: ResultReason | null;
+  standings: number[];
+  playerNumber: number | null;
+}
+
+export default function GameResult({
+  winner,
+  reason,
+  standings,
+  playerNumber,
+}: GameResultProps) {
+  return (
+    <div className="mb-4 px-4 py-2 bg-yellow-100 text-yellow-800 rounded-md">
+      <p>
+        {winner === null
+          ? "The game is drawn by agreement."
+          : `Player ${winner + 1} wins${reason ? REASON_SUFFIXES[reason] : ""}!`}
+      </p>
+      {winner !== null && standings.length > 2 && (
+        <ol className="mt-2 text-sm list-decimal list-inside">
+          {standings.map((seat) => (
+            <li key={seat}>
+              Player {seat + 1}
+              {seat === playerNumber ? " (You)" : ""}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
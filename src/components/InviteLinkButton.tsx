@@ -0,0 +1,17 @@
+import CopyButton from "./CopyButton";
+import { getInviteLink } from "@/lib/routes";
+
+interface InviteLinkButtonProps {
+  roomId: string;
+}
+
+export default function InviteLinkButton({ roomId }: InviteLinkButtonProps) {
+  return (
+    <CopyButton
+      getText={() => getInviteLink(roomId)}
+      label="Copy invite link"
+      copiedLabel="Link copied"
+      promptLabel="Copy this invite link:"
+    />
+  );
+}
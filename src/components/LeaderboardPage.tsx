@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import Avatar from "./Avatar";
+import { getProfileName } from "@/lib/profiles";
+import { getWinRate } from "@/lib/ratings";
+import type { Profile } from "@/lib/types";
+import type { LeaderboardSort } from "@/lib/backend";
+import { useBackend } from "@/hooks/useBackend";
+
+const SORT_LABELS: Record<LeaderboardSort, string> = {
+  rating: "Rating",
+  games_played: "Most active",
+};
+
+interface LeaderboardPageProps {
+  // The signed-in user, whose row is highlighted
+  userId: string;
+  onClose: () => void;
+}
+
+export default function LeaderboardPage({
+  userId,
+  onClose,
+}: LeaderboardPageProps) {
+  const backend = useBackend();
+  const [sort, setSort] = useState<LeaderboardSort>("rating");
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    const loadLeaderboard = async () => {
+      setIsLoading(true);
+      setError(null);
+      const loaded = await backend.getLeaderboard(sort);
+      if (!isCurrent) return;
+
+      if (loaded) {
+        setProfiles(loaded);
+      } else {
+        setError("Failed to load the leaderboard");
+      }
+      setIsLoading(false);
+    };
+
+    loadLeaderboard();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [backend, sort]);
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4 bg-gray-50">
+      <div className="flex items-center justify-between w-full max-w-2xl mb-4">
+        <h1 className="text-3xl font-bold text-gray-800">Leaderboard</h1>
+        <Button onClick={onClose} variant="outline" className="px-3 py-1">
+          Back
+        </Button>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {(Object.keys(SORT_LABELS) as LeaderboardSort[]).map((option) => (
+          <Button
+            key={option}
+            onClick={() => setSort(option)}
+            variant={sort === option ? "default" : "outline"}
+            aria-pressed={sort === option}
+          >
+            {SORT_LABELS[option]}
+          </Button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-4 px-4 py-2 text-red-800 bg-red-100 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-gray-600">Loading leaderboard...</div>
+      ) : profiles.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Nobody has finished an online game yet.
+        </p>
+      ) : (
+        <table className="w-full max-w-2xl text-sm bg-white border rounded-md">
+          <thead className="text-left text-gray-500">
+            <tr>
+              <th className="px-3 py-2">#</th>
+              <th className="px-3 py-2">Player</th>
+              <th className="px-3 py-2 text-right">Rating</th>
+              <th className="px-3 py-2 text-right">Games</th>
+              <th className="px-3 py-2 text-right">Win rate</th>
+              <th className="px-3 py-2 text-right">Longest chain</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profiles.map((profile, index) => (
+              <tr
+                key={profile.id}
+                className={`border-t ${
+                  profile.id === userId ? "font-bold bg-blue-50" : ""
+                }`}
+              >
+                <td className="px-3 py-2 text-gray-500">{index + 1}</td>
+                <td className="px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <Avatar profile={profile} size={24} />
+                    {getProfileName(profile)}
+                  </div>
+                </td>
+                <td className="px-3 py-2 text-right">{profile.rating}</td>
+                <td className="px-3 py-2 text-right">{profile.games_played}</td>
+                <td className="px-3 py-2 text-right">
+                  {Math.round(
+                    getWinRate(profile.games_played, profile.wins) * 100
+                  )}
+                  %
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {profile.longest_chain}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import GameBoard from "./GameBoard";
+import BoardSizePicker from "./BoardSizePicker";
+import PlayerList from "./PlayerList";
+import PlayerCountSelect from "./PlayerCountSelect";
+import GameResult from "./GameResult";
+import AnimationSpeedSelect from "./AnimationSpeedSelect";
+import BotLevelSelect from "./BotLevelSelect";
+import VariantSelect from "./VariantSelect";
+import CopyPositionButton from "./CopyPositionButton";
+import {
+  applyMove,
+  createGameState,
+  createVariant,
+  decodePosition,
+  getMoveError,
+  MIN_PLAYERS,
+  type BoardSize,
+  type GameState,
+  type VariantPreset,
+} from "@/lib/engine";
+import { getRejectionMessage } from "@/lib/moveValidator";
+import {
+  addLocalMove,
+  clearLocalGame,
+  loadLocalGame,
+  saveLocalGame,
+  undoLocalMove,
+  type SavedLocalGame,
+} from "@/lib/localGame";
+import { BOT_LEVEL_LABELS, type BotLevel } from "@/lib/bots";
+import { PLAYERS } from "@/lib/players";
+import { WAVE_DURATION_MS } from "@/lib/settings";
+import { useCascadeAnimation } from "@/hooks/useCascadeAnimation";
+import { useAnimationSpeed } from "@/hooks/useAnimationSpeed";
+import { useBotPlayer } from "@/hooks/useBotPlayer";
+
+interface LocalGameProps {
+  onExit: () => void;
+}
+
+function LocalBoard({
+  gameState,
+  bots,
+  onMove,
+}: {
+  gameState: GameState;
+  bots: Array<BotLevel | null>;
+  onMove: (state: GameState) => void;
+}) {
+  const [animationSpeed, setAnimationSpeed] = useAnimationSpeed();
+  // Why the last click was refused, in the position it was made in
+  const [refusal, setRefusal] = useState<{
+    state: GameState;
+    message: string;
+  } | null>(null);
+  const animation = useCascadeAnimation(
+    gameState,
+    WAVE_DURATION_MS[animationSpeed]
+  );
+  const { currentPlayer, gameOver, winner } = gameState;
+  const players = PLAYERS.slice(0, gameState.playerCount).map((player) => {
+    const bot = bots[player.id];
+    return bot ? { ...player, name: BOT_LEVEL_LABELS[bot] } : player;
+  });
+  const isBotTurn = bots[currentPlayer] !== null;
+
+  useBotPlayer({
+    state: gameState,
+    bots,
+    enabled: !animation.isAnimating,
+    onMove: (move) => onMove(applyMove(gameState, move).state),
+  });
+
+  const handleCellClick = (row: number, col: number) => {
+    if (animation.isAnimating || isBotTurn) return;
+
+    const move = { row, col, player: currentPlayer };
+    const error = getMoveError(gameState, move);
+    if (error) {
+      setRefusal({ state: gameState, message: getRejectionMessage(error) });
+      return;
+    }
+
+    onMove(applyMove(gameState, move).state);
+  };
+
+  return (
+    <>
+      <PlayerList
+        players={players}
+        eliminated={gameState.eliminated}
+        currentPlayer={currentPlayer}
+        playerNumber={null}
+        gameOver={gameOver}
+      />
+
+      {gameOver && winner !== null ? (
+        <GameResult
+          winner={winner}
+          standings={gameState.standings}
+          playerNumber={null}
+        />
+      ) : (
+        <div className="mb-4 text-sm text-gray-600">
+          {isBotTurn
+            ? `Player ${currentPlayer + 1} is thinking...`
+            : `Player ${currentPlayer + 1}'s turn`}
+          {refusal?.state === gameState && (
+            <span className="ml-2 text-red-700">{refusal.message}</span>
+          )}
+        </div>
+      )}
+
+      <GameBoard
+        board={animation.board}
+        players={players}
+        walls={gameState.variant.walls}
+        onCellClick={handleCellClick}
+        flights={animation.flights}
+        flightDurationMs={WAVE_DURATION_MS[animationSpeed]}
+      />
+
+      <AnimationSpeedSelect
+        value={animationSpeed}
+        onChange={setAnimationSpeed}
+      />
+    </>
+  );
+}
+
+// Hot-seat play for several people sharing one device; needs no account or
+// network, and the game in progress is kept in local storage
+export default function LocalGame({ onExit }: LocalGameProps) {
+  const [game, setGame] = useState<SavedLocalGame | null>(loadLocalGame);
+  const [boardSize, setBoardSize] = useState<BoardSize>({ rows: 6, cols: 6 });
+  const [variant, setVariant] = useState<VariantPreset>("standard");
+  const [bots, setBots] = useState<Array<BotLevel | null>>(
+    Array(MIN_PLAYERS).fill(null)
+  );
+  const [position, setPosition] = useState("");
+  const [positionError, setPositionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (game) saveLocalGame(game);
+  }, [game]);
+
+  const handlePlayerCountChange = (count: number) => {
+    setBots(Array.from({ length: count }, (_, seat) => bots[seat] ?? null));
+  };
+
+  // Starts from a position someone copied, keeping the seats' bot levels
+  // where the player counts overlap
+  const handleStartFromPosition = () => {
+    let state: GameState;
+    try {
+      state = decodePosition(position);
+    } catch (error) {
+      setPositionError((error as Error).message);
+      return;
+    }
+    if (state.gameOver) {
+      setPositionError("That game is already over");
+      return;
+    }
+
+    setPositionError(null);
+    setPosition("");
+    setGame({
+      state,
+      bots: Array.from(
+        { length: state.playerCount },
+        (_, seat) => bots[seat] ?? null
+      ),
+      history: [],
+    });
+  };
+
+  const handleNewGame = () => {
+    clearLocalGame();
+    setGame(null);
+  };
+
+  const handleExit = () => {
+    clearLocalGame();
+    onExit();
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4 bg-gray-50">
+      <div className="flex items-center justify-between w-full max-w-2xl mb-4">
+        <h1 className="text-3xl font-bold text-gray-800">Local Game</h1>
+        <Button onClick={handleExit} variant="outline" className="px-3 py-1">
+          Back
+        </Button>
+      </div>
+
+      {game ? (
+        <>
+          <LocalBoard
+            gameState={game.state}
+            bots={game.bots}
+            onMove={(state) => setGame(addLocalMove(game, state))}
+          />
+
+          <div className="flex gap-4">
+            <Button
+              onClick={() => setGame(undoLocalMove(game))}
+              variant="outline"
+              className="px-6"
+              disabled={undoLocalMove(game) === null}
+            >
+              Undo
+            </Button>
+            <Button onClick={handleNewGame} variant="outline" className="px-6">
+              New Game
+            </Button>
+            <CopyPositionButton state={game.state} />
+          </div>
+        </>
+      ) : (
+        <div className="flex flex-col gap-4 w-full max-w-md">
+          <PlayerCountSelect
+            value={bots.length}
+            onChange={handlePlayerCountChange}
+          />
+          {bots.map((level, seat) => (
+            <label
+              key={seat}
+              className="flex items-center justify-between gap-2 text-sm text-gray-600"
+            >
+              Player {seat + 1}
+              <BotLevelSelect
+                value={level}
+                onChange={(next) =>
+                  setBots(bots.map((bot, i) => (i === seat ? next : bot)))
+                }
+                humanLabel="Human"
+              />
+            </label>
+          ))}
+          <BoardSizePicker value={boardSize} onChange={setBoardSize} />
+          <VariantSelect value={variant} onChange={setVariant} />
+          <Button
+            onClick={() =>
+              setGame({
+                state: createGameState(
+                  boardSize,
+                  bots.length,
+                  0,
+                  createVariant(variant, boardSize)
+                ),
+                bots,
+                history: [],
+              })
+            }
+            className="w-full"
+          >
+            Start Local Game
+          </Button>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={position}
+              onChange={(e) => setPosition(e.target.value)}
+              placeholder="Paste a position"
+              className="flex-1 px-4 py-2 border rounded-md"
+            />
+            <Button
+              onClick={handleStartFromPosition}
+              variant="outline"
+              disabled={!position.trim()}
+            >
+              Start From Position
+            </Button>
+          </div>
+          {positionError && (
+            <div className="px-4 py-2 text-red-800 bg-red-100 rounded-md">
+              {positionError}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
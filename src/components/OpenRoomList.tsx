@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { describeTimeControl } from "@/lib/timeControl";
+import { getVariantLabel } from "@/lib/engine";
+import type { GameRoom } from "@/lib/types";
+
+const AGE_REFRESH_MS = 30_000;
+
+interface OpenRoomListProps {
+  rooms: GameRoom[];
+  // The signed-in user, whose own rooms can't be joined again
+  userId: string;
+  onJoin: (roomId: string) => void;
+  disabled?: boolean;
+}
+
+function formatAge(createdAt: string, now: number) {
+  const minutes = Math.floor((now - Date.parse(createdAt)) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ago`;
+}
+
+export default function OpenRoomList({
+  rooms,
+  userId,
+  onJoin,
+  disabled,
+}: OpenRoomListProps) {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), AGE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <h2 className="text-sm font-medium text-gray-700">Open rooms</h2>
+      {rooms.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No public rooms are waiting for players right now.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {rooms.map((room) => {
+            const { size, variant } = room.current_state;
+            const isOwn = room.seats.some((seat) => seat.user_id === userId);
+
+            return (
+              <li
+                key={room.id}
+                className="flex items-center justify-between gap-2 px-3 py-2 bg-white border rounded-md"
+              >
+                <div className="text-sm">
+                  <div className="font-medium text-gray-800">
+                    {room.host_name ?? "Unknown host"}
+                  </div>
+                  <div className="text-gray-500">
+                    {size.rows}×{size.cols} · {getVariantLabel(variant)} ·{" "}
+                    {room.seats.length}/{room.capacity} players ·{" "}
+                    {describeTimeControl(room.time_control ?? null)} ·{" "}
+                    {formatAge(room.created_at, now)}
+                  </div>
+                </div>
+                <Button
+                  onClick={() => onJoin(room.id)}
+                  variant="outline"
+                  disabled={disabled || isOwn}
+                >
+                  {isOwn ? "Yours" : "Join"}
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { MAX_PLAYERS, MIN_PLAYERS } from "@/lib/engine";
+
+interface PlayerCountSelectProps {
+  value: number;
+  onChange: (count: number) => void;
+  disabled?: boolean;
+}
+
+export default function PlayerCountSelect({
+  value,
+  onChange,
+  disabled,
+}: PlayerCountSelectProps) {
+  const counts = Array.from(
+    { length: MAX_PLAYERS - MIN_PLAYERS + 1 },
+    (_, i) => MIN_PLAYERS + i
+  );
+
+  return (
+    <label className="flex items-center justify-between gap-2 text-sm text-gray-600">
+      Players
+      <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="px-2 py-1 border rounded-md"
+        disabled={disabled}
+      >
+        {counts.map((count) => (
+          <option key={count} value={count}>
+            {count} players
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,73 @@
+import type { PlayerInfo } from "@/lib/players";
+import { formatClock } from "@/lib/timeControl";
+import type { ConnectionStatus } from "@/lib/abandonment";
+
+const CONNECTION_STYLES: Record<ConnectionStatus, string> = {
+  online: "bg-green-500",
+  reconnecting: "bg-amber-400 animate-pulse",
+  offline: "bg-gray-400",
+};
+
+interface PlayerListProps {
+  players: PlayerInfo[];
+  eliminated: number[];
+  currentPlayer: number;
+  // The seat playing on this device, or null when everyone shares it
+  playerNumber: number | null;
+  gameOver: boolean;
+  // Milliseconds left per seat, or null for seats without a clock
+  clocks?: Array<number | null>;
+  // Per seat, for online games
+  connections?: ConnectionStatus[];
+}
+
+export default function PlayerList({
+  players,
+  eliminated,
+  currentPlayer,
+  playerNumber,
+  gameOver,
+  clocks,
+  connections,
+}: PlayerListProps) {
+  return (
+    <div className="mb-4 flex flex-wrap items-center justify-center gap-4">
+      {players.map((player) => (
+        <div
+          key={player.id}
+          className={`flex items-center gap-2 px-3 py-1 rounded-full ${
+            currentPlayer === player.id && !gameOver
+              ? "ring-2 ring-offset-2 ring-[" + player.color + "]"
+              : ""
+          } ${playerNumber === player.id ? "font-bold" : ""} ${
+            eliminated.includes(player.id) ? "opacity-50 line-through" : ""
+          }`}
+          style={{
+            backgroundColor: `${player.color}20`,
+            color: player.color,
+          }}
+        >
+          <div
+            className="w-3 h-3 rounded-full"
+            style={{ backgroundColor: player.color }}
+          ></div>
+          <span className="font-medium">
+            {player.name ?? `Player ${player.id + 1}`}
+            {playerNumber === player.id ? " (You)" : ""}
+          </span>
+          {connections?.[player.id] && (
+            <span
+              className={`w-2 h-2 rounded-full ${CONNECTION_STYLES[connections[player.id]]}`}
+              title={connections[player.id]}
+            ></span>
+          )}
+          {typeof clocks?.[player.id] === "number" && (
+            <span className="font-mono text-sm">
+              {formatClock(clocks[player.id] as number)}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import Avatar from "./Avatar";
+import {
+  getProfileError,
+  getProfileName,
+  MAX_DISPLAY_NAME_LENGTH,
+  PROFILE_ERROR_MESSAGES,
+  type ProfileChanges,
+} from "@/lib/profiles";
+import { COLOR_NAMES, PLAYERS } from "@/lib/players";
+import { getWinRate } from "@/lib/ratings";
+import type { Profile } from "@/lib/types";
+import { useBackend } from "@/hooks/useBackend";
+
+interface ProfilePageProps {
+  userId: string;
+  onClose: () => void;
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="px-3 py-2 bg-white border rounded-md">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-lg font-semibold text-gray-800">{value}</div>
+    </div>
+  );
+}
+
+export default function ProfilePage({ userId, onClose }: ProfilePageProps) {
+  const backend = useBackend();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [changes, setChanges] = useState<ProfileChanges>({
+    display_name: "",
+    avatar_url: null,
+    favorite_color: null,
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    const loadProfile = async () => {
+      setIsLoading(true);
+      const loaded = await backend.getProfile(userId);
+      if (!isCurrent) return;
+
+      if (loaded) {
+        setProfile(loaded);
+        setChanges({
+          display_name: loaded.display_name ?? "",
+          avatar_url: loaded.avatar_url,
+          favorite_color: loaded.favorite_color,
+        });
+      } else {
+        setError("Failed to load your profile");
+      }
+      setIsLoading(false);
+    };
+
+    loadProfile();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [backend, userId]);
+
+  const handleSave = async () => {
+    setMessage(null);
+    const validationError = getProfileError(changes);
+    if (validationError) {
+      setError(PROFILE_ERROR_MESSAGES[validationError]);
+      return;
+    }
+
+    setError(null);
+    setIsSaving(true);
+    const saved = await backend.updateProfile(changes);
+    setIsSaving(false);
+
+    if (saved) {
+      setProfile(saved);
+      setMessage("Profile saved");
+    } else {
+      setError("Failed to save your profile");
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4 bg-gray-50">
+      <div className="flex items-center justify-between w-full max-w-md mb-8">
+        <h1 className="text-3xl font-bold text-gray-800">Your Profile</h1>
+        <Button onClick={onClose} variant="outline" className="px-3 py-1">
+          Back
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-gray-600">Loading profile...</div>
+      ) : (
+        <div className="flex flex-col gap-4 w-full max-w-md">
+          {profile && (
+            <>
+              <div className="flex items-center gap-3">
+                <Avatar profile={{ ...profile, ...changes }} size={48} />
+                <div>
+                  <div className="font-medium text-gray-800">
+                    {getProfileName(profile)}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    Rating {profile.rating}
+                  </div>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                <Stat label="Games" value={profile.games_played} />
+                <Stat label="Wins" value={profile.wins} />
+                <Stat
+                  label="Win rate"
+                  value={`${Math.round(
+                    getWinRate(profile.games_played, profile.wins) * 100
+                  )}%`}
+                />
+                <Stat label="Longest chain" value={profile.longest_chain} />
+              </div>
+            </>
+          )}
+
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            Display name
+            <input
+              type="text"
+              value={changes.display_name ?? ""}
+              onChange={(e) =>
+                setChanges({ ...changes, display_name: e.target.value })
+              }
+              maxLength={MAX_DISPLAY_NAME_LENGTH}
+              className="px-4 py-2 border rounded-md"
+              disabled={isSaving}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            Avatar image link
+            <input
+              type="url"
+              value={changes.avatar_url ?? ""}
+              onChange={(e) =>
+                setChanges({ ...changes, avatar_url: e.target.value || null })
+              }
+              placeholder="https://"
+              className="px-4 py-2 border rounded-md"
+              disabled={isSaving}
+            />
+          </label>
+
+          <div className="flex flex-col gap-1 text-sm text-gray-600">
+            Favourite colour
+            <div className="flex flex-wrap gap-2">
+              {PLAYERS.map((player, index) => (
+                <button
+                  key={player.color}
+                  type="button"
+                  onClick={() =>
+                    setChanges({
+                      ...changes,
+                      favorite_color:
+                        changes.favorite_color === player.color
+                          ? null
+                          : player.color,
+                    })
+                  }
+                  className={`w-8 h-8 rounded-full ${
+                    changes.favorite_color === player.color
+                      ? "ring-2 ring-offset-2 ring-gray-800"
+                      : ""
+                  }`}
+                  style={{ backgroundColor: player.color }}
+                  aria-label={COLOR_NAMES[index]}
+                  aria-pressed={changes.favorite_color === player.color}
+                  disabled={isSaving}
+                ></button>
+              ))}
+            </div>
+          </div>
+
+          <Button onClick={handleSave} disabled={isSaving || !profile}>
+            {isSaving ? "Saving..." : "Save Profile"}
+          </Button>
+
+          {message && (
+            <div className="px-4 py-2 text-green-800 bg-green-100 rounded-md">
+              {message}
+            </div>
+          )}
+          {error && (
+            <div className="px-4 py-2 text-red-800 bg-red-100 rounded-md">
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { getColorName, type PlayerInfo } from "@/lib/players";
+
+interface SeriesScoreProps {
+  players: PlayerInfo[];
+  // Games won by each seat in this room so far
+  wins: number[];
+}
+
+export default function SeriesScore({ players, wins }: SeriesScoreProps) {
+  if (!wins.some((count) => count > 0)) return null;
+
+  const scores = players.map((player) => (
+    <span key={player.id} style={{ color: player.color }}>
+      {player.name ?? getColorName(player.color)} {wins[player.id] ?? 0}
+    </span>
+  ));
+
+  // Head-to-head reads as "Red 3 – 2 Green"
+  if (players.length === 2) {
+    const [first, second] = players;
+    return (
+      <div className="mb-2 text-lg font-semibold">
+        <span style={{ color: first.color }}>
+          {first.name ?? getColorName(first.color)} {wins[first.id] ?? 0}
+        </span>
+        {" – "}
+        <span style={{ color: second.color }}>
+          {wins[second.id] ?? 0} {second.name ?? getColorName(second.color)}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-2 flex flex-wrap gap-x-3 text-lg font-semibold">
+      {scores}
+    </div>
+  );
+}
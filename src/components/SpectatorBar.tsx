@@ -0,0 +1,43 @@
+import { Eye } from "lucide-react";
+import type { PlayerInfo } from "@/lib/players";
+
+interface SpectatorBarProps {
+  // Whether this device is watching rather than playing
+  isSpectator: boolean;
+  spectatorCount: number;
+  // The seat to move, or null once the game is over
+  toMove: PlayerInfo | null;
+}
+
+export default function SpectatorBar({
+  isSpectator,
+  spectatorCount,
+  toMove,
+}: SpectatorBarProps) {
+  if (!isSpectator && spectatorCount === 0) return null;
+
+  return (
+    <div className="mb-4 flex items-center gap-4 text-sm text-gray-600">
+      {isSpectator && (
+        <span>
+          You're watching
+          {toMove && (
+            <>
+              {" · "}
+              <span className="font-medium" style={{ color: toMove.color }}>
+                {toMove.name ?? `Player ${toMove.id + 1}`}
+              </span>{" "}
+              to move
+            </>
+          )}
+        </span>
+      )}
+      {spectatorCount > 0 && (
+        <span className="flex items-center gap-1">
+          <Eye className="w-4 h-4" />
+          {spectatorCount} watching
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import {
+  TIME_CONTROL_PRESETS,
+  TIMEOUT_ACTION_LABELS,
+  type TimeControl,
+  type TimeoutAction,
+} from "@/lib/timeControl";
+
+interface TimeControlSelectProps {
+  value: TimeControl | null;
+  onChange: (timeControl: TimeControl | null) => void;
+  disabled?: boolean;
+}
+
+const UNTIMED = "untimed";
+
+export default function TimeControlSelect({
+  value,
+  onChange,
+  disabled,
+}: TimeControlSelectProps) {
+  const preset = TIME_CONTROL_PRESETS.findIndex(
+    ({ timeControl }) =>
+      value !== null &&
+      timeControl.moveSeconds === value.moveSeconds &&
+      timeControl.bankSeconds === value.bankSeconds &&
+      timeControl.incrementSeconds === value.incrementSeconds
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="flex items-center justify-between gap-2 text-sm text-gray-600">
+        Clock
+        <select
+          value={preset === -1 ? UNTIMED : preset}
+          onChange={(e) =>
+            onChange(
+              e.target.value === UNTIMED
+                ? null
+                : {
+                    ...TIME_CONTROL_PRESETS[Number(e.target.value)].timeControl,
+                    onTimeout: value?.onTimeout ?? "forfeit",
+                  }
+            )
+          }
+          className="px-2 py-1 border rounded-md"
+          disabled={disabled}
+        >
+          <option value={UNTIMED}>No clock</option>
+          {TIME_CONTROL_PRESETS.map(({ label }, i) => (
+            <option key={label} value={i}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {value && (
+        <label className="flex items-center justify-between gap-2 text-sm text-gray-600">
+          When time runs out
+          <select
+            value={value.onTimeout}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                onTimeout: e.target.value as TimeoutAction,
+              })
+            }
+            className="px-2 py-1 border rounded-md"
+            disabled={disabled}
+          >
+            {Object.entries(TIMEOUT_ACTION_LABELS).map(([action, label]) => (
+              <option key={action} value={action}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+}
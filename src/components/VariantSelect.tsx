@@ -0,0 +1,35 @@
+import {
+  VARIANT_LABELS,
+  VARIANT_PRESETS,
+  type VariantPreset,
+} from "@/lib/engine";
+
+interface VariantSelectProps {
+  value: VariantPreset;
+  onChange: (preset: VariantPreset) => void;
+  disabled?: boolean;
+}
+
+export default function VariantSelect({
+  value,
+  onChange,
+  disabled,
+}: VariantSelectProps) {
+  return (
+    <label className="flex items-center justify-between gap-2 text-sm text-gray-600">
+      Rules
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as VariantPreset)}
+        className="px-2 py-1 border rounded-md"
+        disabled={disabled}
+      >
+        {VARIANT_PRESETS.map((preset) => (
+          <option key={preset} value={preset}>
+            {VARIANT_LABELS[preset]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,18 @@
+import { useState } from "react";
+import {
+  loadAnimationSpeed,
+  saveAnimationSpeed,
+  type AnimationSpeed,
+} from "@/lib/settings";
+
+// The player's animation speed preference, remembered across games
+export function useAnimationSpeed() {
+  const [speed, setSpeed] = useState(loadAnimationSpeed);
+
+  const changeSpeed = (next: AnimationSpeed) => {
+    setSpeed(next);
+    saveAnimationSpeed(next);
+  };
+
+  return [speed, changeSpeed] as const;
+}
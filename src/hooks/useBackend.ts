@@ -0,0 +1,10 @@
+import { createContext, useContext } from "react";
+import { getBackend, type GameBackend } from "@/lib/backend";
+
+// Lets a provider swap in another backend, e.g. an in-memory one for a
+// test; otherwise everything uses the one this build was configured with
+export const BackendContext = createContext<GameBackend>(getBackend());
+
+export function useBackend() {
+  return useContext(BackendContext);
+}
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from "react";
+import type { GameState, Move } from "@/lib/engine";
+import type { BotLevel, BotRequest, BotResponse } from "@/lib/bots";
+
+// Bots answer instantly; a short pause lets people see whose turn it was
+const MIN_THINKING_MS = 500;
+
+interface BotPlayerOptions {
+  state: GameState;
+  // Bot level per seat, null for seats played by people
+  bots: Array<BotLevel | null>;
+  enabled: boolean;
+  onMove: (move: Move) => void;
+}
+
+// Plays the current seat's move whenever it belongs to a bot
+export function useBotPlayer({
+  state,
+  bots,
+  enabled,
+  onMove,
+}: BotPlayerOptions) {
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+  const onMoveRef = useRef(onMove);
+  onMoveRef.current = onMove;
+
+  useEffect(() => {
+    const worker = new Worker(
+      new URL("../workers/bot.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  const level = bots[state.currentPlayer] ?? null;
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker || !enabled || !level || state.gameOver) return;
+
+    const id = ++requestIdRef.current;
+    const startedAt = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleMessage = (event: MessageEvent<BotResponse>) => {
+      if (event.data.id !== id || !event.data.move) return;
+
+      const move = event.data.move;
+      const delay = Math.max(0, MIN_THINKING_MS - (Date.now() - startedAt));
+      timer = setTimeout(() => onMoveRef.current(move), delay);
+    };
+
+    worker.addEventListener("message", handleMessage);
+    const request: BotRequest = { id, state, level };
+    worker.postMessage(request);
+
+    return () => {
+      worker.removeEventListener("message", handleMessage);
+      clearTimeout(timer);
+    };
+  }, [state, level, enabled]);
+}
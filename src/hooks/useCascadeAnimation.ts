@@ -0,0 +1,135 @@
+import { useLayoutEffect, useRef, useState } from "react";
+import {
+  applyMove,
+  cloneBoard,
+  hashBoard,
+  type Board,
+  type ExplosionWave,
+  type GameState,
+  type Position,
+} from "@/lib/engine";
+
+export interface Flight {
+  id: string;
+  from: Position;
+  to: Position;
+  player: number;
+}
+
+export interface CascadeFrame {
+  board: Board;
+  flights: Flight[];
+}
+
+// Waves shown before the board skips to where the cascade ends; one that runs
+// on to the engine's cap would otherwise keep the board animating for minutes
+const MAX_ANIMATED_WAVES = 30;
+
+// Board while a wave's atoms are in the air: exploded cells have given up
+// their atoms but the neighbours haven't received them yet
+function getLaunchBoard(before: Board, wave: ExplosionWave) {
+  const board = cloneBoard(before);
+  for (const explosion of wave.explosions) {
+    const cell = board[explosion.row][explosion.col];
+    cell.count -= explosion.targets.length;
+    if (cell.count <= 0) {
+      cell.count = 0;
+      cell.player = null;
+    }
+  }
+  return board;
+}
+
+// Replays the move that produced `next` from `previous` and breaks it into
+// frames, or returns null when there is nothing to animate
+export function getCascadeFrames(
+  previous: GameState,
+  next: GameState
+): CascadeFrame[] | null {
+  const move = next.lastMove;
+  if (!move || next.moveNumber !== previous.moveNumber + 1) return null;
+
+  let events;
+  try {
+    ({ events } = applyMove(previous, move));
+  } catch {
+    return null;
+  }
+
+  const frames: CascadeFrame[] = [];
+  let before = cloneBoard(previous.board);
+  before[move.row][move.col] = {
+    count: before[move.row][move.col].count + 1,
+    player: move.player,
+  };
+  frames.push({ board: before, flights: [] });
+
+  for (const event of events) {
+    if (event.type !== "wave") continue;
+    if (frames.length > MAX_ANIMATED_WAVES) break;
+
+    const flights = event.wave.explosions.flatMap((explosion) =>
+      explosion.targets.map((target) => ({
+        id: `${event.index}:${explosion.row},${explosion.col}>${target.row},${target.col}`,
+        from: { row: explosion.row, col: explosion.col },
+        to: target,
+        player: move.player,
+      }))
+    );
+    frames.push({ board: getLaunchBoard(before, event.wave), flights });
+    before = event.wave.board;
+  }
+
+  return frames.length > 1 ? frames : null;
+}
+
+// Returns the board to draw for `state`, stepping through the explosion
+// waves of its last move before settling on the real board
+export function useCascadeAnimation(state: GameState, waveDurationMs: number) {
+  const [frame, setFrame] = useState<CascadeFrame | null>(null);
+  const previousRef = useRef<GameState | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Speed changes apply from the next animation
+  const waveDurationMsRef = useRef(waveDurationMs);
+  waveDurationMsRef.current = waveDurationMs;
+  // Only a move or a new board starts an animation; a room update that leaves
+  // the position alone (a draw offer, a takeback vote) mustn't cut one short
+  const position = `${state.moveNumber}:${hashBoard(state.board)}`;
+
+  // Layout effect so the settled board never flashes before the first frame
+  useLayoutEffect(() => {
+    const state = stateRef.current;
+    const waveDurationMs = waveDurationMsRef.current;
+    const previous = previousRef.current;
+    previousRef.current = state;
+
+    const frames =
+      previous && waveDurationMs > 0 ? getCascadeFrames(previous, state) : null;
+    if (!frames) {
+      setFrame(null);
+      return;
+    }
+
+    setFrame(frames[0]);
+    const timers = frames
+      .slice(1)
+      .map((next, i) =>
+        setTimeout(() => setFrame(next), (i + 1) * waveDurationMs)
+      );
+    timers.push(
+      setTimeout(() => setFrame(null), frames.length * waveDurationMs)
+    );
+
+    return () => {
+      timers.forEach(clearTimeout);
+      setFrame(null);
+    };
+  }, [position]);
+
+  return {
+    board: frame?.board ?? state.board,
+    flights: frame?.flights ?? [],
+    isAnimating: frame !== null,
+  };
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react";
+import type { GameRoom } from "@/lib/types";
+import { useBackend } from "./useBackend";
+
+// The lobby's live list of public rooms waiting for players
+export function useOpenRooms(enabled: boolean) {
+  const backend = useBackend();
+  const [rooms, setRooms] = useState<GameRoom[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const subscription = backend.subscribeToOpenRooms(setRooms);
+    return () => subscription.unsubscribe();
+  }, [backend, enabled]);
+
+  return rooms;
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import {
+  HEARTBEAT_INTERVAL_MS,
+  type ConnectionStatus,
+} from "@/lib/abandonment";
+import type { RoomViewer } from "@/lib/backend";
+import type { Seat } from "@/lib/types";
+import { useBackend } from "./useBackend";
+
+const TICK_MS = 1000;
+
+interface PlayerConnectionsOptions {
+  roomId: string | null;
+  seats: Seat[];
+  hostId: string | null;
+  // Everyone with the room open, from presence
+  viewers: RoomViewer[];
+  graceMs: number;
+  // Whether this client has a seat, and so should keep sending heartbeats
+  isPlayer: boolean;
+}
+
+// Each seat's connection status, worked out from who has the room open;
+// bots share the host's. Also keeps the server's heartbeat for this client
+// fresh so the others can only claim abandonment once it really stops.
+export function usePlayerConnections({
+  roomId,
+  seats,
+  hostId,
+  viewers,
+  graceMs,
+  isPlayer,
+}: PlayerConnectionsOptions): ConnectionStatus[] {
+  const backend = useBackend();
+  // When each absent seat owner was first seen missing
+  const [departedAt, setDepartedAt] = useState<Record<string, number>>({});
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    if (!roomId || !isPlayer) return;
+
+    backend.sendHeartbeat(roomId);
+    const timer = setInterval(
+      () => backend.sendHeartbeat(roomId),
+      HEARTBEAT_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }, [backend, roomId, isPlayer]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    setDepartedAt({});
+  }, [roomId]);
+
+  useEffect(() => {
+    const present = new Set(viewers.map((viewer) => viewer.user_id));
+    setDepartedAt((previous) => {
+      const next: Record<string, number> = {};
+      for (const seat of seats) {
+        const owner = seat.user_id ?? hostId;
+        if (owner && !present.has(owner)) {
+          next[owner] = previous[owner] ?? Date.now();
+        }
+      }
+      return next;
+    });
+  }, [viewers, seats, hostId]);
+
+  return seats.map((seat) => {
+    const owner = seat.user_id ?? hostId;
+    const since = owner ? departedAt[owner] : undefined;
+    if (since === undefined) return "online";
+    return now - since < graceMs ? "reconnecting" : "offline";
+  });
+}
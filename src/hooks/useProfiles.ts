@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import type { Profile } from "@/lib/types";
+import { useBackend } from "./useBackend";
+
+// The profiles of the given users by id, refetched whenever the set or
+// refreshKey changes
+export function useProfiles(userIds: string[], refreshKey?: string) {
+  const backend = useBackend();
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  // Seats arrive as fresh arrays on every room update; only refetch when
+  // someone new sits down
+  const key = [...new Set(userIds)].sort().join(",");
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    const loadProfiles = async () => {
+      const loaded = await backend.getProfiles(key ? key.split(",") : []);
+      if (!isCurrent || !loaded) return;
+      setProfiles(
+        Object.fromEntries(loaded.map((profile) => [profile.id, profile]))
+      );
+    };
+
+    loadProfiles();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [backend, key, refreshKey]);
+
+  return profiles;
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from "react";
+import { getRoutePath, parseRoute, type Route } from "@/lib/routes";
+
+interface NavigateOptions {
+  // Swap the current history entry instead of adding one, for redirects
+  replace?: boolean;
+}
+
+// The route for the current URL, kept in step with the back and forward
+// buttons, and a way to move to another one
+export function useRoute() {
+  const [route, setRoute] = useState(() =>
+    parseRoute(window.location.pathname)
+  );
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const navigate = useCallback(
+    (next: Route, { replace = false }: NavigateOptions = {}) => {
+      const path = getRoutePath(next);
+      if (replace) {
+        window.history.replaceState(null, "", path);
+      } else {
+        window.history.pushState(null, "", path);
+      }
+      setRoute(next);
+    },
+    []
+  );
+
+  return [route, navigate] as const;
+}
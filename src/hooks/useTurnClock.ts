@@ -0,0 +1,53 @@
+import { useEffect, useRef, useState } from "react";
+import type { GameState } from "@/lib/engine";
+import { getRemainingMs, type TurnClock } from "@/lib/timeControl";
+
+const TICK_MS = 250;
+// The server refuses claims until its own clock agrees the turn is over, so
+// keep asking until the room moves on
+const CLAIM_RETRY_MS = 2000;
+
+interface TurnClockOptions {
+  clock: TurnClock;
+  state: GameState;
+  // Whether this client should claim the turn once its deadline passes
+  canClaim: boolean;
+  onExpire: () => void;
+}
+
+// Counts down the room's clock, returning each seat's remaining time (null
+// for seats without one), and calls onExpire once the deadline has passed
+export function useTurnClock({
+  clock,
+  state,
+  canClaim,
+  onExpire,
+}: TurnClockOptions) {
+  const [now, setNow] = useState(Date.now);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+  const deadline = clock.turn_deadline;
+
+  useEffect(() => {
+    if (!deadline) return;
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  useEffect(() => {
+    if (!deadline || !canClaim) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const claim = () => {
+      onExpireRef.current();
+      timer = setTimeout(claim, CLAIM_RETRY_MS);
+    };
+    timer = setTimeout(claim, Math.max(0, Date.parse(deadline) - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [deadline, canClaim]);
+
+  return Array.from({ length: state.playerCount }, (_, seat) =>
+    getRemainingMs(clock, state, seat, now)
+  );
+}
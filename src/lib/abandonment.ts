@@ -0,0 +1,29 @@
+import type { GameRoom, Seat } from "./types.ts";
+
+// How long a seat's player may be gone before the others can claim the game
+export const ABANDON_GRACE_OPTIONS = [30, 60, 120, 300];
+export const DEFAULT_ABANDON_GRACE_SECONDS = 60;
+
+// How often a seated player's client tells the server it is still there;
+// comfortably inside the shortest grace period
+export const HEARTBEAT_INTERVAL_MS = 10_000;
+
+export function isValidAbandonGrace(seconds: number) {
+  return ABANDON_GRACE_OPTIONS.includes(seconds);
+}
+
+export function getAbandonGraceMs(
+  room: Pick<GameRoom, "abandon_grace_seconds">
+) {
+  return (room.abandon_grace_seconds ?? DEFAULT_ABANDON_GRACE_SECONDS) * 1000;
+}
+
+// The person a seat depends on being connected: its player, or the host for
+// bots since the host's client plays them
+export function getSeatOwner(room: Pick<GameRoom, "player1_id">, seat: Seat) {
+  return seat.user_id ?? room.player1_id;
+}
+
+// Whether a seat's player has the room open: online while they do,
+// reconnecting during the grace period after they drop, offline after it
+export type ConnectionStatus = "online" | "reconnecting" | "offline";
@@ -0,0 +1,83 @@
+import {
+  createLocalBackend,
+  createLocalData,
+  type LocalEvent,
+  type LocalStore,
+} from "./local";
+import type { BackendUser, GameBackend } from "./types";
+
+const DATA_KEY = "chain-reaction:backend";
+const GUEST_KEY = "chain-reaction:guest";
+const CHANNEL_NAME = "chain-reaction:backend";
+
+// Keeps the data in localStorage and tells this browser's other tabs about
+// every change over a BroadcastChannel, so two tabs can play each other
+function createBroadcastStore(): LocalStore {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const listeners = new Set<(event: LocalEvent) => void>();
+  const notify = (event: LocalEvent) => {
+    for (const listener of listeners) listener(event);
+  };
+
+  // The channel never echoes a tab's own messages back to it
+  channel.addEventListener("message", ({ data }) => notify(data));
+
+  const send = (event: LocalEvent) => {
+    channel.postMessage(event);
+    notify(event);
+  };
+
+  return {
+    load: () => {
+      const saved = localStorage.getItem(DATA_KEY);
+      if (!saved) return createLocalData();
+      try {
+        return { ...createLocalData(), ...JSON.parse(saved) };
+      } catch {
+        return createLocalData();
+      }
+    },
+    save: (data) => {
+      localStorage.setItem(DATA_KEY, JSON.stringify(data));
+      send({ type: "change" });
+    },
+    send,
+    listen: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    onClose: (callback) => {
+      window.addEventListener("pagehide", callback);
+      return () => window.removeEventListener("pagehide", callback);
+    },
+  };
+}
+
+// Each tab is its own guest, kept across reloads but not shared with other
+// tabs the way localStorage would be
+function loadGuest(): BackendUser | null {
+  const saved = sessionStorage.getItem(GUEST_KEY);
+  return saved ? (JSON.parse(saved) as BackendUser) : null;
+}
+
+export function createBroadcastBackend(): GameBackend {
+  return createLocalBackend(
+    createBroadcastStore(),
+    {
+      getUser: loadGuest,
+      signIn: () => {
+        if (loadGuest()) return;
+
+        const id = crypto.randomUUID();
+        const guest: BackendUser = {
+          id,
+          email: null,
+          name: `Guest ${id.slice(0, 4)}`,
+        };
+        sessionStorage.setItem(GUEST_KEY, JSON.stringify(guest));
+      },
+      signOut: () => sessionStorage.removeItem(GUEST_KEY),
+    },
+    "Play as guest"
+  );
+}
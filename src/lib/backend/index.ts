@@ -0,0 +1,30 @@
+import { createBroadcastBackend } from "./broadcast";
+import { createMemoryBackend } from "./memory";
+import { supabaseBackend } from "./supabase";
+import type { GameBackend } from "./types";
+
+export type * from "./types";
+export { createLocalBackend, createLocalData } from "./local";
+export { createMemoryBackend, createMemoryStore } from "./memory";
+export { createBroadcastBackend } from "./broadcast";
+export { supabaseBackend } from "./supabase";
+
+let backend: GameBackend | null = null;
+
+// The backend this build was configured with: VITE_GAME_BACKEND picks
+// "memory" or "broadcast" for playing without a network, otherwise Supabase
+export function getBackend(): GameBackend {
+  if (backend) return backend;
+
+  switch (import.meta.env.VITE_GAME_BACKEND) {
+    case "memory":
+      backend = createMemoryBackend();
+      break;
+    case "broadcast":
+      backend = createBroadcastBackend();
+      break;
+    default:
+      backend = supabaseBackend;
+  }
+  return backend;
+}
@@ -0,0 +1,682 @@
+import type { BoardSize } from "../engine";
+import type { BotLevel } from "../bots";
+import { MAX_CHAT_LENGTH, MIN_CHAT_INTERVAL_MS } from "../chat";
+import {
+  getPlayerNumber,
+  isPlayedOut,
+  MoveRejectedError,
+  validateAbandonment,
+  validateDrawResponse,
+  validateMove,
+  validateResignation,
+  validateTakebackResponse,
+  validateTimeout,
+  type RoomUpdate,
+  type ValidatedMove,
+} from "../moveValidator";
+import { getProfileError, isSeatColor, type ProfileChanges } from "../profiles";
+import { DEFAULT_RATING, getPlaces, getRatingChanges } from "../ratings";
+import type {
+  ArchivedGame,
+  ChatMessage,
+  GameRoom,
+  GameState,
+  MoveRecord,
+  Profile,
+} from "../types";
+import {
+  canAddBot,
+  canJoinRoom,
+  canStartRoom,
+  createRoom,
+  createSeat,
+  getArchivedGame,
+  getRematchUpdate,
+  getRematchVotes,
+  getRoomCheck,
+  getSeatUpdate,
+  getStartUpdate,
+  isOpenRoom,
+  isQuickMatch,
+  isRematchAgreed,
+} from "./rooms";
+import type {
+  BackendUser,
+  GameBackend,
+  LeaderboardSort,
+  RoomOptions,
+  RoomSubscriptionOptions,
+  RoomViewer,
+} from "./types";
+
+// A backend that keeps everything on this device, for playing and testing
+// without a network. Turns are judged here with the same validators the edge
+// functions use, so games play out exactly as they would online.
+
+// Everything the backend keeps, in place of the database tables
+export interface LocalData {
+  rooms: GameRoom[];
+  moves: MoveRecord[];
+  messages: ChatMessage[];
+  profiles: Profile[];
+  archivedGames: ArchivedGame[];
+  // Each user's latest heartbeat in each room, as ISO timestamps
+  heartbeats: Record<string, Record<string, string>>;
+  // Who has each room open, keyed by subscription so every tab counts until
+  // it closes
+  viewers: Record<string, Record<string, RoomViewer>>;
+}
+
+export function createLocalData(): LocalData {
+  return {
+    rooms: [],
+    moves: [],
+    messages: [],
+    profiles: [],
+    archivedGames: [],
+    heartbeats: {},
+    viewers: {},
+  };
+}
+
+export type LocalEvent =
+  // The data was saved, by this client or another
+  | { type: "change" }
+  // A chat message that has just been saved
+  | { type: "chat"; message: ChatMessage };
+
+// Where the data lives and how clients sharing it hear about changes
+export interface LocalStore {
+  load(): LocalData;
+  // Saves the data and sends a change event
+  save(data: LocalData): void;
+  send(event: LocalEvent): void;
+  // Calls listener with every event, whoever sent it
+  listen(listener: (event: LocalEvent) => void): () => void;
+  // Calls callback when this client goes away for good, when the store can
+  // tell
+  onClose?(callback: () => void): () => void;
+}
+
+// Who is signed in on this client
+export interface LocalAuth {
+  getUser(): BackendUser | null;
+  signIn(): void;
+  signOut(): void;
+}
+
+function createProfile(user: BackendUser, now: string): Profile {
+  return {
+    id: user.id,
+    display_name: user.name,
+    avatar_url: null,
+    favorite_color: null,
+    rating: DEFAULT_RATING,
+    games_played: 0,
+    wins: 0,
+    longest_chain: 0,
+    last_played_at: null,
+    created_at: now,
+  };
+}
+
+// Folds a game that has just finished into its players' profiles, the way
+// the edge functions do
+function recordResult(data: LocalData, room: GameRoom, update: RoomUpdate) {
+  const { current_state: state } = update;
+  const places = getPlaces(state);
+  const ranked = state.standings
+    .map((seat, index) => ({ ...room.seats[seat], place: places[index] }))
+    .filter((seat) => seat.user_id !== null);
+  if (ranked.length === 0) return;
+
+  const moves = data.moves
+    .filter(
+      (move) =>
+        move.room_id === room.id && move.game_number === (room.game_number ?? 1)
+    )
+    .sort((a, b) => a.room_version - b.room_version);
+  if (!isPlayedOut(room, moves, state)) {
+    console.error("Not rating a game its turns don't lead to:", room.id);
+    return;
+  }
+
+  const profiles = ranked.map((seat) =>
+    data.profiles.find((profile) => profile.id === seat.user_id)
+  );
+  const changes = getRatingChanges(
+    profiles.map((profile) => profile?.rating ?? DEFAULT_RATING),
+    ranked.map((seat) => seat.place)
+  );
+  const now = new Date().toISOString();
+
+  ranked.forEach((seat, place) => {
+    const profile = profiles[place];
+    if (!profile) return;
+
+    const chains = moves
+      .filter((move) => move.player === seat.seat)
+      .map((move) => move.chain_length);
+    profile.rating += changes[place];
+    profile.games_played++;
+    if (seat.seat === state.winner) profile.wins++;
+    profile.longest_chain = Math.max(profile.longest_chain, ...chains);
+    profile.last_played_at = now;
+  });
+}
+
+// Distinct viewers, each at the time they first opened the room
+function getViewers(data: LocalData, roomId: string) {
+  const viewers = new Map<string, RoomViewer>();
+  for (const viewer of Object.values(data.viewers[roomId] ?? {})) {
+    const seen = viewers.get(viewer.user_id);
+    if (!seen || viewer.joined_at < seen.joined_at) {
+      viewers.set(viewer.user_id, viewer);
+    }
+  }
+  return Array.from(viewers.values());
+}
+
+export function createLocalBackend(
+  store: LocalStore,
+  auth: LocalAuth,
+  signInLabel: string
+): GameBackend {
+  // Reads, changes and saves in one go, so nothing else can change the data
+  // in between
+  const write = <T>(change: (data: LocalData) => T): T => {
+    const data = store.load();
+    const result = change(data);
+    store.save(data);
+    return result;
+  };
+
+  const getUser = (): BackendUser | null => {
+    const user = auth.getUser();
+    if (!user) return null;
+
+    // Stands in for the database trigger that gives new users a profile
+    const data = store.load();
+    const profile = data.profiles.find(({ id }) => id === user.id);
+    if (!profile) {
+      write((data) =>
+        data.profiles.push(createProfile(user, new Date().toISOString()))
+      );
+    }
+
+    return { ...user, name: profile?.display_name ?? user.name };
+  };
+
+  const getRoom = (data: LocalData, roomId: string) =>
+    data.rooms.find((room) => room.id === roomId) ?? null;
+
+  const getProfile = (data: LocalData, userId: string) =>
+    data.profiles.find((profile) => profile.id === userId) ?? null;
+
+  // Changes a room, but only if it hasn't moved on from `expected`
+  const updateRoom = (
+    expected: GameRoom,
+    update: Partial<GameRoom>,
+    action: string
+  ) =>
+    write((data) => {
+      const room = getRoom(data, expected.id);
+      if (!room || room.version !== expected.version) {
+        console.error(`Room was updated while ${action}`);
+        return false;
+      }
+      Object.assign(room, update);
+      return true;
+    });
+
+  // Judges and applies a turn, standing in for the edge functions and their
+  // saveTurn
+  const saveTurn = async (
+    roomId: string,
+    judge: (room: GameRoom, userId: string, data: LocalData) => ValidatedMove
+  ): Promise<GameState> => {
+    const user = getUser();
+    if (!user) throw new MoveRejectedError("not_authenticated");
+
+    return write((data) => {
+      const room = getRoom(data, roomId);
+      if (!room) throw new MoveRejectedError("room_not_found");
+
+      const played = structuredClone(room);
+      const {
+        update,
+        records,
+        removedVersions = [],
+      } = judge(played, user.id, data);
+      Object.assign(room, update);
+
+      data.moves = data.moves.filter(
+        (move) =>
+          move.room_id !== roomId ||
+          !removedVersions.includes(move.room_version)
+      );
+      const now = new Date().toISOString();
+      data.moves.push(
+        ...records.map((record) => ({
+          ...record,
+          id: crypto.randomUUID(),
+          created_at: now,
+        }))
+      );
+
+      if (update.status === "finished") recordResult(data, played, update);
+      return update.current_state;
+    });
+  };
+
+  const getOpenRooms = () =>
+    store
+      .load()
+      .rooms.filter(isOpenRoom)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const createGameRoom = async (
+    userId: string,
+    size: BoardSize,
+    options: RoomOptions = {}
+  ) => {
+    const user = getUser();
+    if (!user || user.id !== userId) {
+      console.error("User not authenticated or ID mismatch");
+      return null;
+    }
+
+    const profile = getProfile(store.load(), userId);
+    const room = createRoom(
+      { id: userId, name: user.name, favoriteColor: profile?.favorite_color },
+      size,
+      options
+    );
+    if (!room) return null;
+
+    const id = crypto.randomUUID();
+    write((data) =>
+      data.rooms.push({
+        ...room,
+        id,
+        created_at: new Date().toISOString(),
+        clocks: null,
+        turn_started_at: null,
+        turn_deadline: null,
+        result_reason: null,
+        game_number: 1,
+        series_wins: [],
+        rematch_votes: [],
+        draw_offers: [],
+        takeback_votes: [],
+      })
+    );
+    return id;
+  };
+
+  const joinRoom = async (roomId: string, userId: string) => {
+    const user = getUser();
+    if (!user || user.id !== userId) {
+      console.error("User not authenticated or ID mismatch");
+      return false;
+    }
+
+    const data = store.load();
+    const room = getRoom(data, roomId);
+    if (!room) {
+      console.error("Game room not found:", roomId);
+      return false;
+    }
+    if (!canJoinRoom(room, userId)) return false;
+
+    const seat = createSeat(
+      room.seats,
+      userId,
+      null,
+      getProfile(data, userId)?.favorite_color
+    );
+    return updateRoom(
+      room,
+      getSeatUpdate(room, seat, Date.now()),
+      "taking a seat"
+    );
+  };
+
+  return {
+    isAvailable: true,
+    signInLabel,
+
+    async getCurrentUser() {
+      return getUser();
+    },
+    async signIn() {
+      auth.signIn();
+    },
+    async signOut() {
+      auth.signOut();
+    },
+
+    createRoom: createGameRoom,
+    joinRoom,
+
+    async checkRoom(roomId) {
+      const user = getUser();
+      if (!user) {
+        console.error("User not authenticated");
+        return getRoomCheck(null, "");
+      }
+      return getRoomCheck(getRoom(store.load(), roomId), user.id);
+    },
+
+    async getRoom(roomId) {
+      const room = getRoom(store.load(), roomId);
+      if (!room) console.error("Game room not found:", roomId);
+      return room;
+    },
+
+    subscribeToOpenRooms(callback) {
+      let isSubscribed = true;
+      const refresh = () => {
+        if (isSubscribed) callback(getOpenRooms());
+      };
+
+      Promise.resolve().then(refresh);
+      const stopListening = store.listen(
+        (event) => event.type === "change" && refresh()
+      );
+
+      return {
+        unsubscribe: () => {
+          isSubscribed = false;
+          stopListening();
+        },
+      };
+    },
+
+    async quickMatch(userId, size, options = {}) {
+      const candidates = getOpenRooms().filter((room) =>
+        isQuickMatch(room, userId, size, options)
+      );
+
+      for (const room of candidates) {
+        if (await joinRoom(room.id, userId)) return room.id;
+      }
+
+      return createGameRoom(userId, size, { ...options, isPublic: true });
+    },
+
+    async addBot(roomId, userId, level: BotLevel) {
+      const room = getRoom(store.load(), roomId);
+      if (!room || !canAddBot(room, userId)) return false;
+
+      const seat = createSeat(room.seats, null, level);
+      return updateRoom(
+        room,
+        getSeatUpdate(room, seat, Date.now()),
+        "taking a seat"
+      );
+    },
+
+    async startRoom(roomId, userId) {
+      const room = getRoom(store.load(), roomId);
+      if (!room || !canStartRoom(room, userId)) return false;
+
+      return updateRoom(
+        room,
+        getStartUpdate(room, room.seats, Date.now()),
+        "starting"
+      );
+    },
+
+    async requestRematch(roomId, userId) {
+      const room = getRoom(store.load(), roomId);
+      if (!room) return false;
+
+      const rematchVotes = getRematchVotes(room, userId);
+      if (!rematchVotes) return false;
+
+      if (!isRematchAgreed(room, rematchVotes)) {
+        return updateRoom(
+          room,
+          { rematch_votes: rematchVotes, version: room.version + 1 },
+          "requesting a rematch"
+        );
+      }
+
+      const isStarted = updateRoom(
+        room,
+        getRematchUpdate(room, Date.now()),
+        "starting a rematch"
+      );
+      if (isStarted) {
+        write((data) =>
+          data.archivedGames.push({
+            ...getArchivedGame(room),
+            id: crypto.randomUUID(),
+            finished_at: new Date().toISOString(),
+          })
+        );
+      }
+      return isStarted;
+    },
+
+    submitMove: (roomId, row, col) =>
+      saveTurn(roomId, (room, userId) => validateMove(room, userId, row, col)),
+    claimTimeout: (roomId) =>
+      saveTurn(roomId, (room, userId) => validateTimeout(room, userId)),
+    claimAbandonment: (roomId) =>
+      saveTurn(roomId, (room, userId, data) =>
+        validateAbandonment(room, userId, data.heartbeats[roomId] ?? {})
+      ),
+    resign: (roomId) =>
+      saveTurn(roomId, (room, userId) => validateResignation(room, userId)),
+    respondToDraw: (roomId, accept) =>
+      saveTurn(roomId, (room, userId) =>
+        validateDrawResponse(room, userId, accept)
+      ),
+    respondToTakeback: (roomId, accept) =>
+      saveTurn(roomId, (room, userId, data) =>
+        validateTakebackResponse(
+          room,
+          userId,
+          accept,
+          data.moves
+            .filter(
+              (move) =>
+                move.room_id === roomId &&
+                move.game_number === (room.game_number ?? 1)
+            )
+            .sort((a, b) => a.room_version - b.room_version)
+        )
+      ),
+
+    subscribeToRoom(
+      roomId,
+      callback,
+      { presence, onChatMessage }: RoomSubscriptionOptions = {}
+    ) {
+      const subscriptionId = crypto.randomUUID();
+      let lastVersion = -1;
+      let lastViewers = "";
+
+      const refresh = () => {
+        const data = store.load();
+        const room = getRoom(data, roomId);
+        if (room && room.version > lastVersion) {
+          lastVersion = room.version;
+          callback(room);
+        }
+
+        if (presence) {
+          const viewers = getViewers(data, roomId);
+          if (JSON.stringify(viewers) !== lastViewers) {
+            lastViewers = JSON.stringify(viewers);
+            presence.onSync(viewers);
+          }
+        }
+      };
+
+      const leave = () =>
+        write((data) => delete data.viewers[roomId]?.[subscriptionId]);
+
+      const stopListening = store.listen((event) => {
+        if (event.type === "change") refresh();
+        else if (event.message.room_id === roomId) {
+          onChatMessage?.(event.message);
+        }
+      });
+      const stopWatchingClose = presence && store.onClose?.(leave);
+
+      if (presence) {
+        write((data) => {
+          data.viewers[roomId] = {
+            ...data.viewers[roomId],
+            [subscriptionId]: {
+              user_id: presence.userId,
+              joined_at: new Date().toISOString(),
+            },
+          };
+        });
+      } else {
+        Promise.resolve().then(refresh);
+      }
+
+      return {
+        unsubscribe: () => {
+          stopListening();
+          stopWatchingClose?.();
+          if (presence) leave();
+        },
+      };
+    },
+
+    async sendHeartbeat(roomId) {
+      const user = getUser();
+      if (!user) {
+        console.error("User not authenticated");
+        return false;
+      }
+
+      write((data) => {
+        data.heartbeats[roomId] = {
+          ...data.heartbeats[roomId],
+          [user.id]: new Date().toISOString(),
+        };
+      });
+      return true;
+    },
+
+    async getMoveHistory(roomId) {
+      return store
+        .load()
+        .moves.filter((move) => move.room_id === roomId)
+        .sort((a, b) => a.room_version - b.room_version);
+    },
+
+    async getChatMessages(roomId) {
+      return store
+        .load()
+        .messages.filter((message) => message.room_id === roomId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async sendChatMessage(roomId, kind, body) {
+      const user = getUser();
+      if (!user) {
+        console.error("User not authenticated");
+        return null;
+      }
+
+      const text = body.trim();
+      if (!text || text.length > MAX_CHAT_LENGTH) {
+        console.error("Invalid chat message:", { roomId, length: text.length });
+        return null;
+      }
+
+      // The same limits the database enforces online: only seated players
+      // may talk, and at most once a second
+      const message = write((data) => {
+        const now = new Date();
+        const room = getRoom(data, roomId);
+        const isSeated =
+          room !== null && getPlayerNumber(room, user.id) !== null;
+        const isTooFast = data.messages.some(
+          (message) =>
+            message.room_id === roomId &&
+            message.user_id === user.id &&
+            now.getTime() - Date.parse(message.created_at) <
+              MIN_CHAT_INTERVAL_MS
+        );
+        if (!isSeated || isTooFast) {
+          console.error("Chat message refused:", {
+            roomId,
+            isSeated,
+            isTooFast,
+          });
+          return null;
+        }
+
+        const message: ChatMessage = {
+          id: crypto.randomUUID(),
+          room_id: roomId,
+          user_id: user.id,
+          author_name: user.name,
+          kind,
+          body: text,
+          created_at: now.toISOString(),
+        };
+        data.messages.push(message);
+        return message;
+      });
+
+      if (message) store.send({ type: "chat", message });
+      return message;
+    },
+
+    async getProfile(userId) {
+      return getProfile(store.load(), userId);
+    },
+
+    async getProfiles(userIds) {
+      return store
+        .load()
+        .profiles.filter((profile) => userIds.includes(profile.id));
+    },
+
+    async updateProfile(changes: ProfileChanges) {
+      const user = getUser();
+      if (!user) {
+        console.error("User not authenticated");
+        return null;
+      }
+
+      const error = getProfileError(changes);
+      if (error || !isSeatColor(changes.favorite_color)) {
+        console.error("Invalid profile:", error ?? changes.favorite_color);
+        return null;
+      }
+
+      return write((data) => {
+        const profile = getProfile(data, user.id);
+        if (!profile) return null;
+
+        profile.display_name = changes.display_name!.trim();
+        profile.avatar_url = changes.avatar_url || null;
+        profile.favorite_color = changes.favorite_color;
+        return profile;
+      });
+    },
+
+    async getLeaderboard(sort: LeaderboardSort) {
+      return store
+        .load()
+        .profiles.filter((profile) => profile.games_played > 0)
+        .sort(
+          (a, b) =>
+            b[sort] - a[sort] ||
+            (b.last_played_at ?? "").localeCompare(a.last_played_at ?? "")
+        )
+        .slice(0, 50);
+    },
+  };
+}
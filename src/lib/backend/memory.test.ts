@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { MoveRejectedError } from "../moveValidator";
+import { createMemoryBackend, createMemoryStore } from "./memory";
+import type { BackendUser } from "./types";
+
+const SIZE = { rows: 3, cols: 3 };
+
+function createUser(name: string): BackendUser {
+  return { id: crypto.randomUUID(), email: null, name };
+}
+
+// A backend per player, all sharing one store like clients of one server
+function createTable(...names: string[]) {
+  const store = createMemoryStore();
+  return names.map((name) => {
+    const user = createUser(name);
+    return { user, backend: createMemoryBackend({ store, user }) };
+  });
+}
+
+describe("the memory backend", () => {
+  it("plays a room from creation through a rematch", async () => {
+    const [alice, bob] = createTable("Alice", "Bob");
+
+    const roomId = await alice.backend.createRoom(alice.user.id, SIZE);
+    expect(roomId).not.toBeNull();
+    expect((await alice.backend.getRoom(roomId!))?.status).toBe("waiting");
+    await expect(alice.backend.submitMove(roomId!, 0, 0)).rejects.toThrow(
+      MoveRejectedError
+    );
+
+    // The second seat fills the room and starts it
+    expect(await bob.backend.joinRoom(roomId!, bob.user.id)).toBe(true);
+    let room = await bob.backend.getRoom(roomId!);
+    expect(room?.status).toBe("playing");
+    expect(room?.seats.map((seat) => seat.user_id)).toEqual([
+      alice.user.id,
+      bob.user.id,
+    ]);
+
+    await expect(bob.backend.submitMove(roomId!, 0, 0)).rejects.toThrow(
+      MoveRejectedError
+    );
+    await alice.backend.submitMove(roomId!, 0, 0);
+    await bob.backend.submitMove(roomId!, 0, 1);
+    const final = await alice.backend.submitMove(roomId!, 0, 0);
+
+    expect(final.gameOver).toBe(true);
+    expect(final.winner).toBe(0);
+    room = await alice.backend.getRoom(roomId!);
+    expect(room?.status).toBe("finished");
+    expect(room?.result_reason).toBe("elimination");
+    expect(room?.series_wins).toEqual([1, 0]);
+    expect(await alice.backend.getMoveHistory(roomId!)).toHaveLength(3);
+
+    const [winner, loser] = await Promise.all([
+      alice.backend.getProfile(alice.user.id),
+      bob.backend.getProfile(bob.user.id),
+    ]);
+    expect(winner?.wins).toBe(1);
+    expect(loser?.games_played).toBe(1);
+    expect(winner!.rating).toBeGreaterThan(loser!.rating);
+
+    // Both have to ask before the next game starts, with the second seat
+    // opening it
+    expect(await alice.backend.requestRematch(roomId!, alice.user.id)).toBe(
+      true
+    );
+    expect((await alice.backend.getRoom(roomId!))?.status).toBe("finished");
+    expect(await bob.backend.requestRematch(roomId!, bob.user.id)).toBe(true);
+
+    room = await alice.backend.getRoom(roomId!);
+    expect(room?.status).toBe("playing");
+    expect(room?.game_number).toBe(2);
+    expect(room?.current_state.currentPlayer).toBe(1);
+    expect(room?.current_state.moveNumber).toBe(0);
+
+    const state = await bob.backend.submitMove(roomId!, 2, 2);
+    expect(state.board[2][2]).toEqual({ count: 1, player: 1 });
+    const history = await bob.backend.getMoveHistory(roomId!);
+    expect(history?.map((move) => move.game_number)).toEqual([1, 1, 1, 2]);
+  });
+
+  it("lets the host start a room before it fills", async () => {
+    const [alice, bob, carol] = createTable("Alice", "Bob", "Carol");
+
+    const roomId = await alice.backend.createRoom(alice.user.id, SIZE, {
+      capacity: 3,
+    });
+    expect(await alice.backend.startRoom(roomId!, alice.user.id)).toBe(false);
+    await bob.backend.joinRoom(roomId!, bob.user.id);
+    expect((await alice.backend.getRoom(roomId!))?.status).toBe("waiting");
+
+    expect(await bob.backend.startRoom(roomId!, bob.user.id)).toBe(false);
+    expect(await alice.backend.startRoom(roomId!, alice.user.id)).toBe(true);
+
+    const room = await alice.backend.getRoom(roomId!);
+    expect(room?.status).toBe("playing");
+    expect(room?.current_state.playerCount).toBe(2);
+    expect(await carol.backend.joinRoom(roomId!, carol.user.id)).toBe(false);
+  });
+
+  it("rates only games their history leads to", async () => {
+    const store = createMemoryStore();
+    const [alice, bob] = [createUser("Alice"), createUser("Bob")].map(
+      (user) => ({ user, backend: createMemoryBackend({ store, user }) })
+    );
+    const roomId = await alice.backend.createRoom(alice.user.id, SIZE);
+    await bob.backend.joinRoom(roomId!, bob.user.id);
+
+    await alice.backend.submitMove(roomId!, 0, 0);
+    await bob.backend.submitMove(roomId!, 0, 1);
+    // The history loses a turn the room went through
+    store.save({ ...store.load(), moves: store.load().moves.slice(1) });
+    const final = await alice.backend.submitMove(roomId!, 0, 0);
+
+    expect(final.winner).toBe(0);
+    const profile = await alice.backend.getProfile(alice.user.id);
+    expect(profile?.games_played ?? 0).toBe(0);
+  });
+
+  it("ends the game when a player resigns", async () => {
+    const [alice, bob] = createTable("Alice", "Bob");
+    const roomId = await alice.backend.createRoom(alice.user.id, SIZE);
+    await bob.backend.joinRoom(roomId!, bob.user.id);
+
+    await alice.backend.submitMove(roomId!, 1, 1);
+    const state = await alice.backend.resign(roomId!);
+
+    expect(state.winner).toBe(1);
+    const room = await bob.backend.getRoom(roomId!);
+    expect(room?.status).toBe("finished");
+    expect(room?.result_reason).toBe("resignation");
+  });
+
+  it("takes back a move along with the bot's reply", async () => {
+    const [alice] = createTable("Alice");
+    const roomId = await alice.backend.createRoom(alice.user.id, SIZE);
+    await alice.backend.addBot(roomId!, alice.user.id, "random");
+
+    await alice.backend.submitMove(roomId!, 1, 1);
+    // The host plays the bot's turn for it
+    await alice.backend.submitMove(roomId!, 0, 0);
+    const state = await alice.backend.respondToTakeback(roomId!, true);
+
+    expect(state.moveNumber).toBe(0);
+    expect(state.currentPlayer).toBe(0);
+    expect(await alice.backend.getMoveHistory(roomId!)).toHaveLength(0);
+  });
+
+  it("passes on chat from seated players only", async () => {
+    const [alice, bob, carol] = createTable("Alice", "Bob", "Carol");
+    const roomId = await alice.backend.createRoom(alice.user.id, SIZE);
+    await bob.backend.joinRoom(roomId!, bob.user.id);
+
+    const heard: string[] = [];
+    const subscription = bob.backend.subscribeToRoom(roomId!, () => {}, {
+      onChatMessage: (message) => heard.push(message.body),
+    });
+
+    expect(
+      await alice.backend.sendChatMessage(roomId!, "text", "hi")
+    ).not.toBeNull();
+    expect(
+      await carol.backend.sendChatMessage(roomId!, "text", "let me in")
+    ).toBeNull();
+    subscription.unsubscribe();
+
+    expect(heard).toEqual(["hi"]);
+    const messages = await carol.backend.getChatMessages(roomId!);
+    expect(messages?.map((message) => message.body)).toEqual(["hi"]);
+  });
+});
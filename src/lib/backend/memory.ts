@@ -0,0 +1,59 @@
+import {
+  createLocalBackend,
+  createLocalData,
+  type LocalEvent,
+  type LocalStore,
+} from "./local";
+import type { BackendUser, GameBackend } from "./types";
+
+// Keeps the data in this page only, gone on reload. Backends made on the
+// same store see each other's changes, so one per player can play out a
+// whole game in a single process.
+export function createMemoryStore(): LocalStore {
+  let data = createLocalData();
+  const listeners = new Set<(event: LocalEvent) => void>();
+  const send = (event: LocalEvent) => {
+    for (const listener of listeners) listener(event);
+  };
+
+  return {
+    load: () => structuredClone(data),
+    save: (next) => {
+      data = structuredClone(next);
+      send({ type: "change" });
+    },
+    send,
+    listen: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+let guestCount = 0;
+
+function createGuest(): BackendUser {
+  guestCount++;
+  return { id: crypto.randomUUID(), email: null, name: `Guest ${guestCount}` };
+}
+
+export function createMemoryBackend({
+  store = createMemoryStore(),
+  user = null,
+}: { store?: LocalStore; user?: BackendUser | null } = {}): GameBackend {
+  let current = user;
+
+  return createLocalBackend(
+    store,
+    {
+      getUser: () => current,
+      signIn: () => {
+        current ??= createGuest();
+      },
+      signOut: () => {
+        current = null;
+      },
+    },
+    "Play as guest"
+  );
+}
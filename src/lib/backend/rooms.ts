@@ -0,0 +1,319 @@
+import {
+  createGameState,
+  getBoardSize,
+  getFirstPlayer,
+  getVariantError,
+  isSameVariant,
+  isValidBoardSize,
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+  STANDARD_VARIANT,
+  type BoardSize,
+} from "../engine/index.ts";
+import { getPlayerNumber } from "../moveValidator.ts";
+import { PLAYERS } from "../players.ts";
+import {
+  isSameTimeControl,
+  isValidTimeControl,
+  startClock,
+} from "../timeControl.ts";
+import {
+  DEFAULT_ABANDON_GRACE_SECONDS,
+  isValidAbandonGrace,
+} from "../abandonment.ts";
+import type { BotLevel } from "../bots/index.ts";
+import type { ArchivedGame, GameRoom, Seat } from "../types.ts";
+import type { RoomCheck, RoomOptions } from "./types.ts";
+
+// The rules for setting up rooms, shared by every backend so they only
+// differ in where the rooms are kept. The edge functions that open rooms,
+// seat players and start games use them too.
+
+// A room as it's first written, before the backend gives it an ID
+export type NewRoom = Omit<
+  GameRoom,
+  | "id"
+  | "created_at"
+  | "clocks"
+  | "turn_started_at"
+  | "turn_deadline"
+  | "result_reason"
+  | "game_number"
+  | "series_wins"
+  | "rematch_votes"
+  | "draw_offers"
+  | "takeback_votes"
+>;
+
+// A new seat's colour: the player's favourite if nobody at the table has it
+// yet, otherwise the first free one from the seat's own onwards
+function getSeatColor(seats: Seat[], favoriteColor: string | null) {
+  const taken = seats.map((seat) => seat.color);
+  if (favoriteColor && !taken.includes(favoriteColor)) return favoriteColor;
+
+  for (let offset = 0; offset < PLAYERS.length; offset++) {
+    const { color } = PLAYERS[(seats.length + offset) % PLAYERS.length];
+    if (!taken.includes(color)) return color;
+  }
+  return PLAYERS[seats.length].color;
+}
+
+// The next seat at a table already holding `seats`
+export function createSeat(
+  seats: Seat[],
+  userId: string | null,
+  bot: BotLevel | null = null,
+  favoriteColor: string | null = null
+): Seat {
+  return {
+    seat: seats.length,
+    user_id: userId,
+    bot,
+    color: getSeatColor(seats, favoriteColor),
+    eliminated: false,
+  };
+}
+
+// Checks the host's choices, returning null (and saying why) when any of
+// them can't be played
+export function createRoom(
+  host: { id: string; name: string; favoriteColor?: string | null },
+  size: BoardSize,
+  {
+    capacity = MIN_PLAYERS,
+    timeControl = null,
+    isPublic = false,
+    abandonGraceSeconds = DEFAULT_ABANDON_GRACE_SECONDS,
+    variant = STANDARD_VARIANT,
+  }: RoomOptions = {}
+): NewRoom | null {
+  if (!isValidBoardSize(size)) {
+    console.error("Invalid board size:", size);
+    return null;
+  }
+
+  const variantError = getVariantError(size, variant);
+  if (variantError) {
+    console.error("Invalid variant:", variantError);
+    return null;
+  }
+
+  if (
+    !Number.isInteger(capacity) ||
+    capacity < MIN_PLAYERS ||
+    capacity > MAX_PLAYERS
+  ) {
+    console.error("Invalid room capacity:", capacity);
+    return null;
+  }
+
+  if (timeControl && !isValidTimeControl(timeControl)) {
+    console.error("Invalid time control:", timeControl);
+    return null;
+  }
+
+  if (!isValidAbandonGrace(abandonGraceSeconds)) {
+    console.error("Invalid abandonment grace period:", abandonGraceSeconds);
+    return null;
+  }
+
+  return {
+    player1_id: host.id,
+    seats: [createSeat([], host.id, null, host.favoriteColor)],
+    capacity,
+    is_public: isPublic,
+    host_name: host.name,
+    // The player count is fixed when the game starts, once we know who
+    // joined
+    current_state: createGameState(size, MIN_PLAYERS, 0, variant),
+    game_over: false,
+    winner: null,
+    status: "waiting",
+    time_control: timeControl,
+    abandon_grace_seconds: abandonGraceSeconds,
+    version: 0,
+  };
+}
+
+// Whether `userId` may take a seat, saying why not when they can't
+export function canJoinRoom(room: GameRoom, userId: string) {
+  // Don't allow the same player to join twice
+  if (getPlayerNumber(room, userId) !== null) {
+    console.error("Already seated in this game room");
+    return false;
+  }
+
+  if (room.status !== "waiting" || room.seats.length >= room.capacity) {
+    console.error("Room is not available for joining");
+    return false;
+  }
+
+  // Don't start a game on a board the rules can't handle
+  const { size, board } = room.current_state;
+  const boardSize = getBoardSize(board);
+  if (
+    !size ||
+    !isValidBoardSize(size) ||
+    boardSize.rows !== size.rows ||
+    boardSize.cols !== size.cols
+  ) {
+    console.error("Room has an invalid board size:", size);
+    return false;
+  }
+
+  return true;
+}
+
+export function canAddBot(room: GameRoom, userId: string) {
+  if (room.player1_id !== userId) {
+    console.error("Only the host can add bots");
+    return false;
+  }
+
+  if (room.status !== "waiting" || room.seats.length >= room.capacity) {
+    console.error("Room has no free seat for a bot");
+    return false;
+  }
+
+  return true;
+}
+
+export function canStartRoom(room: GameRoom, userId: string) {
+  if (room.player1_id !== userId) {
+    console.error("Only the host can start the game");
+    return false;
+  }
+
+  if (room.status !== "waiting" || room.seats.length < MIN_PLAYERS) {
+    console.error("Room cannot be started:", {
+      status: room.status,
+      seats: room.seats.length,
+    });
+    return false;
+  }
+
+  return true;
+}
+
+// Deals in everyone seated so far; the player count is locked from here on
+export function getStartUpdate(room: GameRoom, seats: Seat[], now: number) {
+  const { size, variant } = room.current_state;
+  const state = createGameState(size, seats.length, 0, variant);
+  return {
+    seats,
+    status: "playing" as const,
+    current_state: state,
+    version: room.version + 1,
+    ...startClock(room.time_control, state, now),
+  };
+}
+
+// Appends a seat, starting the game if that fills the room
+export function getSeatUpdate(room: GameRoom, seat: Seat, now: number) {
+  const seats = [...room.seats, seat];
+  return seats.length === room.capacity
+    ? getStartUpdate(room, seats, now)
+    : { seats, version: room.version + 1 };
+}
+
+export function getRoomCheck(room: GameRoom | null, userId: string): RoomCheck {
+  if (!room) return { exists: false, canJoin: false, isSeated: false };
+
+  return {
+    exists: true,
+    canJoin: room.status === "waiting" && room.seats.length < room.capacity,
+    isSeated: getPlayerNumber(room, userId) !== null,
+  };
+}
+
+// Public rooms still waiting for players
+export function isOpenRoom(room: GameRoom) {
+  return (
+    room.is_public &&
+    room.status === "waiting" &&
+    room.seats.length < room.capacity
+  );
+}
+
+// Whether quick match should put `userId` in this open room
+export function isQuickMatch(
+  room: GameRoom,
+  userId: string,
+  size: BoardSize,
+  {
+    capacity = MIN_PLAYERS,
+    timeControl = null,
+    variant = STANDARD_VARIANT,
+  }: RoomOptions
+) {
+  return (
+    room.capacity === capacity &&
+    room.current_state.size.rows === size.rows &&
+    room.current_state.size.cols === size.cols &&
+    isSameVariant(room.current_state.variant, variant) &&
+    isSameTimeControl(room.time_control ?? null, timeControl) &&
+    getPlayerNumber(room, userId) === null
+  );
+}
+
+// The seats wanting a rematch once `userId` has asked, or null when they
+// have no finished game to ask about
+export function getRematchVotes(room: GameRoom, userId: string) {
+  const seat = getPlayerNumber(room, userId);
+  if (seat === null || room.status !== "finished") {
+    console.error("Room has no finished game to rematch:", {
+      seat,
+      status: room.status,
+    });
+    return null;
+  }
+
+  const votes = room.rematch_votes ?? [];
+  return votes.includes(seat) ? votes : [...votes, seat];
+}
+
+// Bots always want a rematch
+export function isRematchAgreed(room: GameRoom, votes: number[]) {
+  return room.seats.every(
+    (seat) => seat.user_id === null || votes.includes(seat.seat)
+  );
+}
+
+// The finished game, as kept once the room moves on
+export function getArchivedGame(
+  room: GameRoom
+): Omit<ArchivedGame, "id" | "finished_at"> {
+  return {
+    room_id: room.id,
+    game_number: room.game_number ?? 1,
+    seats: room.seats,
+    final_state: room.current_state,
+    winner: room.winner,
+    result_reason: room.result_reason,
+  };
+}
+
+// Starts the next game, with the following seat moving first
+export function getRematchUpdate(room: GameRoom, now: number) {
+  const gameNumber = room.game_number ?? 1;
+  const { size, variant, playerCount } = room.current_state;
+  const state = createGameState(
+    size,
+    playerCount,
+    getFirstPlayer(gameNumber + 1, playerCount),
+    variant
+  );
+
+  return {
+    current_state: state,
+    seats: room.seats.map((seat) => ({ ...seat, eliminated: false })),
+    game_over: false,
+    winner: null,
+    status: "playing" as const,
+    result_reason: null,
+    game_number: gameNumber + 1,
+    rematch_votes: [],
+    version: room.version + 1,
+    ...startClock(room.time_control, state, now),
+  };
+}
@@ -0,0 +1,51 @@
+import * as supabase from "../supabase";
+import { getDisplayName } from "../profiles";
+import type { BackendUser, GameBackend } from "./types";
+
+// The hosted backend: rooms live in Postgres, turns are judged by the edge
+// functions and changes arrive over Supabase Realtime
+export const supabaseBackend: GameBackend = {
+  isAvailable: supabase.isSupabaseConfigured,
+  signInLabel: "Sign in with Google",
+
+  async getCurrentUser(): Promise<BackendUser | null> {
+    const user = await supabase.getCurrentUser();
+    if (!user) return null;
+
+    return {
+      id: user.id,
+      email: user.email ?? null,
+      name: getDisplayName(user),
+    };
+  },
+  signIn: supabase.signInWithGoogle,
+  signOut: supabase.signOut,
+
+  createRoom: supabase.createGameRoom,
+  joinRoom: supabase.joinGameRoom,
+  checkRoom: supabase.checkGameRoom,
+  getRoom: supabase.getGameRoom,
+  subscribeToOpenRooms: supabase.subscribeToOpenRooms,
+  quickMatch: supabase.quickMatch,
+  addBot: supabase.addBotToRoom,
+  startRoom: supabase.startGameRoom,
+  requestRematch: supabase.requestRematch,
+
+  submitMove: supabase.submitMove,
+  claimTimeout: supabase.claimTimeout,
+  claimAbandonment: supabase.claimAbandonment,
+  resign: supabase.resign,
+  respondToDraw: supabase.respondToDraw,
+  respondToTakeback: supabase.respondToTakeback,
+
+  subscribeToRoom: supabase.subscribeToGameRoom,
+  sendHeartbeat: supabase.sendHeartbeat,
+  getMoveHistory: supabase.getMoveHistory,
+  getChatMessages: supabase.getChatMessages,
+  sendChatMessage: supabase.sendChatMessage,
+
+  getProfile: supabase.getProfile,
+  getProfiles: supabase.getProfiles,
+  updateProfile: supabase.updateProfile,
+  getLeaderboard: (sort) => supabase.getLeaderboard(sort),
+};
@@ -0,0 +1,127 @@
+import type { BoardSize, Variant } from "../engine/index.ts";
+import type { BotLevel } from "../bots/index.ts";
+import type { TimeControl } from "../timeControl.ts";
+import type { ProfileChanges } from "../profiles.ts";
+import type {
+  ChatMessage,
+  GameRoom,
+  GameState,
+  MoveRecord,
+  Profile,
+} from "../types.ts";
+
+// Whoever is signed in on this device
+export interface BackendUser {
+  id: string;
+  email: string | null;
+  // The name other players see
+  name: string;
+}
+
+export interface RoomOptions {
+  capacity?: number;
+  timeControl?: TimeControl | null;
+  // Public rooms are listed in the lobby and open to quick match
+  isPublic?: boolean;
+  abandonGraceSeconds?: number;
+  // The standard game when left out
+  variant?: Variant;
+}
+
+export interface RoomCheck {
+  exists: boolean;
+  canJoin: boolean;
+  // Whether the signed-in user already has a seat, e.g. after a reload
+  isSeated: boolean;
+}
+
+// Someone with the room open, whether seated or watching
+export interface RoomViewer {
+  user_id: string;
+  // When they opened the room, as an ISO timestamp
+  joined_at: string;
+}
+
+export interface RoomPresenceOptions {
+  userId: string;
+  // Called with everyone who has the room open, once per user however many
+  // tabs they have
+  onSync: (viewers: RoomViewer[]) => void;
+}
+
+export interface RoomSubscriptionOptions {
+  presence?: RoomPresenceOptions;
+  // Chat messages as they are saved to the room, whoever sent them
+  onChatMessage?: (message: ChatMessage) => void;
+}
+
+export interface RoomSubscription {
+  unsubscribe: () => void;
+}
+
+export type LeaderboardSort = "rating" | "games_played";
+
+// Everything the app needs from wherever games are kept. Turn methods throw
+// MoveRejectedError when the game's rules refuse them; the rest report
+// failure with null or false, having logged why.
+export interface GameBackend {
+  // Whether this build can reach the backend at all
+  readonly isAvailable: boolean;
+  // What the sign-in button says
+  readonly signInLabel: string;
+
+  getCurrentUser(): Promise<BackendUser | null>;
+  signIn(): Promise<void>;
+  signOut(): Promise<void>;
+
+  // Rooms
+  createRoom(
+    userId: string,
+    size: BoardSize,
+    options?: RoomOptions
+  ): Promise<string | null>;
+  joinRoom(roomId: string, userId: string): Promise<boolean>;
+  checkRoom(roomId: string): Promise<RoomCheck>;
+  getRoom(roomId: string): Promise<GameRoom | null>;
+  // Keeps callback supplied with the public rooms waiting for players
+  subscribeToOpenRooms(callback: (rooms: GameRoom[]) => void): {
+    unsubscribe: () => void;
+  };
+  quickMatch(
+    userId: string,
+    size: BoardSize,
+    options?: Omit<RoomOptions, "isPublic">
+  ): Promise<string | null>;
+  addBot(roomId: string, userId: string, level: BotLevel): Promise<boolean>;
+  startRoom(roomId: string, userId: string): Promise<boolean>;
+  requestRematch(roomId: string, userId: string): Promise<boolean>;
+
+  // Turns, judged by the backend rather than the client
+  submitMove(roomId: string, row: number, col: number): Promise<GameState>;
+  claimTimeout(roomId: string): Promise<GameState>;
+  claimAbandonment(roomId: string): Promise<GameState>;
+  resign(roomId: string): Promise<GameState>;
+  respondToDraw(roomId: string, accept: boolean): Promise<GameState>;
+  respondToTakeback(roomId: string, accept: boolean): Promise<GameState>;
+
+  // Delivers the room now and after every change, newest only
+  subscribeToRoom(
+    roomId: string,
+    callback: (room: GameRoom) => void,
+    options?: RoomSubscriptionOptions
+  ): RoomSubscription;
+  sendHeartbeat(roomId: string): Promise<boolean>;
+  getMoveHistory(roomId: string): Promise<MoveRecord[] | null>;
+  getChatMessages(roomId: string): Promise<ChatMessage[] | null>;
+  sendChatMessage(
+    roomId: string,
+    kind: ChatMessage["kind"],
+    body: string
+  ): Promise<ChatMessage | null>;
+
+  // Profiles
+  getProfile(userId: string): Promise<Profile | null>;
+  getProfiles(userIds: string[]): Promise<Profile[] | null>;
+  updateProfile(changes: ProfileChanges): Promise<Profile | null>;
+  getLeaderboard(sort: LeaderboardSort): Promise<Profile[] | null>;
+}
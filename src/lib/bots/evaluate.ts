@@ -0,0 +1,34 @@
+import { getCriticalMass, type GameState } from "../engine/index.ts";
+
+export const WIN_SCORE = 1_000_000;
+
+// Material from `player`'s point of view: their atoms minus everyone else's,
+// with a bonus for cells one atom short of exploding
+export function evaluate(state: GameState, player: number) {
+  if (state.gameOver) {
+    return state.winner === player ? WIN_SCORE : -WIN_SCORE;
+  }
+  if (state.eliminated.includes(player)) return -WIN_SCORE;
+
+  let score = 0;
+  state.board.forEach((cells, row) =>
+    cells.forEach((cell, col) => {
+      if (cell.count === 0 || cell.player === null) return;
+
+      const isLoaded = cell.count === getCriticalMass(state, row, col) - 1;
+      const value = cell.count + (isLoaded ? 2 : 0);
+      score += cell.player === player ? value : -value;
+    })
+  );
+  return score;
+}
+
+export function countAtoms(state: GameState, player: number) {
+  let total = 0;
+  for (const cells of state.board) {
+    for (const cell of cells) {
+      if (cell.player === player) total += cell.count;
+    }
+  }
+  return total;
+}
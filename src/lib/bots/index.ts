@@ -0,0 +1,26 @@
+import type { GameState, Move } from "../engine/index.ts";
+import {
+  chooseGreedyMove,
+  chooseRandomMove,
+  chooseSearchMove,
+} from "./strategies.ts";
+import type { BotLevel, Random } from "./types.ts";
+
+export * from "./types.ts";
+export * from "./evaluate.ts";
+export * from "./strategies.ts";
+
+export function chooseBotMove(
+  state: GameState,
+  level: BotLevel,
+  random: Random = Math.random
+): Move | null {
+  switch (level) {
+    case "random":
+      return chooseRandomMove(state, random);
+    case "greedy":
+      return chooseGreedyMove(state, random);
+    case "search":
+      return chooseSearchMove(state, random);
+  }
+}
@@ -0,0 +1,141 @@
+import {
+  applyMove,
+  getCriticalMass,
+  getLegalMoves,
+  type GameState,
+  type Move,
+} from "../engine/index.ts";
+import { countAtoms, evaluate, WIN_SCORE } from "./evaluate.ts";
+import type { Random } from "./types.ts";
+
+function pick<T>(items: T[], random: Random): T | null {
+  if (items.length === 0) return null;
+  return items[Math.floor(random() * items.length)];
+}
+
+export function chooseRandomMove(
+  state: GameState,
+  random: Random
+): Move | null {
+  return pick(getLegalMoves(state), random);
+}
+
+// Plays whichever move leaves it owning the most atoms, breaking ties at
+// random
+export function chooseGreedyMove(
+  state: GameState,
+  random: Random
+): Move | null {
+  const player = state.currentPlayer;
+  let best: Move[] = [];
+  let bestScore = -Infinity;
+
+  for (const move of getLegalMoves(state)) {
+    const next = applyMove(state, move).state;
+    const score = next.winner === player ? WIN_SCORE : countAtoms(next, player);
+
+    if (score > bestScore) {
+      best = [move];
+      bestScore = score;
+    } else if (score === bestScore) {
+      best.push(move);
+    }
+  }
+
+  return pick(best, random);
+}
+
+// Lookahead limits: every root move is tried, but deeper nodes only expand a
+// shortlist so big boards stay responsive
+const SEARCH_DEPTH = 3;
+const ROOT_BEAM = 12;
+const INNER_CANDIDATES = 24;
+const INNER_BEAM = 8;
+
+// Cheap pre-filter before applying moves: cells about to explode first, the
+// rest shuffled
+function shortlist(state: GameState, random: Random): Move[] {
+  const moves = getLegalMoves(state).map((move) => {
+    const cell = state.board[move.row][move.col];
+    const isLoaded =
+      cell.count === getCriticalMass(state, move.row, move.col) - 1;
+    return { move, priority: (isLoaded ? 1 : 0) + random() };
+  });
+
+  return moves
+    .sort((a, b) => b.priority - a.priority)
+    .slice(0, INNER_CANDIDATES)
+    .map(({ move }) => move);
+}
+
+// Children ordered best-first for whoever is to move: `player` maximises their
+// score and, paranoid-style, every opponent minimises it
+function expand(state: GameState, moves: Move[], player: number, beam: number) {
+  const sign = state.currentPlayer === player ? -1 : 1;
+  return moves
+    .map((move) => {
+      const next = applyMove(state, move).state;
+      return { move, next, score: evaluate(next, player) };
+    })
+    .sort((a, b) => sign * (a.score - b.score))
+    .slice(0, beam);
+}
+
+function search(
+  state: GameState,
+  player: number,
+  depth: number,
+  alpha: number,
+  beta: number,
+  random: Random
+): number {
+  if (depth === 0 || state.gameOver || state.eliminated.includes(player)) {
+    // Prefer quicker wins and slower losses
+    const score = evaluate(state, player);
+    return Math.abs(score) === WIN_SCORE
+      ? score + Math.sign(score) * depth
+      : score;
+  }
+
+  const children = expand(state, shortlist(state, random), player, INNER_BEAM);
+  const isMaximising = state.currentPlayer === player;
+
+  for (const { next } of children) {
+    const score = search(next, player, depth - 1, alpha, beta, random);
+    if (isMaximising) {
+      alpha = Math.max(alpha, score);
+    } else {
+      beta = Math.min(beta, score);
+    }
+    if (alpha >= beta) break;
+  }
+
+  return isMaximising ? alpha : beta;
+}
+
+export function chooseSearchMove(
+  state: GameState,
+  random: Random
+): Move | null {
+  const player = state.currentPlayer;
+  const children = expand(state, getLegalMoves(state), player, ROOT_BEAM);
+
+  let best: Move | null = null;
+  let alpha = -Infinity;
+  for (const { move, next } of children) {
+    const score = search(
+      next,
+      player,
+      SEARCH_DEPTH - 1,
+      alpha,
+      Infinity,
+      random
+    );
+    if (best === null || score > alpha) {
+      best = move;
+      alpha = score;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,26 @@
+import type { GameState, Move } from "../engine/index.ts";
+
+export type BotLevel = "random" | "greedy" | "search";
+
+export const BOT_LEVELS: BotLevel[] = ["random", "greedy", "search"];
+
+export const BOT_LEVEL_LABELS: Record<BotLevel, string> = {
+  random: "Easy bot",
+  greedy: "Medium bot",
+  search: "Hard bot",
+};
+
+// Returns a number in [0, 1), like Math.random
+export type Random = () => number;
+
+// Messages exchanged with the bot worker
+export interface BotRequest {
+  id: number;
+  state: GameState;
+  level: BotLevel;
+}
+
+export interface BotResponse {
+  id: number;
+  move: Move | null;
+}
@@ -0,0 +1,46 @@
+import type { ChatMessage } from "./types";
+
+export const MAX_CHAT_LENGTH = 280;
+// Matches the room_messages insert policy, which refuses anything faster
+export const MIN_CHAT_INTERVAL_MS = 1000;
+
+export const QUICK_REACTIONS = [
+  "GG",
+  "Nice chain!",
+  "Well played",
+  "Oops",
+  "👍",
+  "🔥",
+  "😮",
+];
+
+export type ChatError = "empty" | "too_long" | "too_fast";
+
+export const CHAT_ERROR_MESSAGES: Record<ChatError, string> = {
+  empty: "Type a message first",
+  too_long: `Messages can be at most ${MAX_CHAT_LENGTH} characters`,
+  too_fast: "You're sending messages too quickly",
+};
+
+export function getChatError(
+  body: string,
+  lastSentAt: number | null,
+  now: number
+): ChatError | null {
+  const text = body.trim();
+  if (text.length === 0) return "empty";
+  if (text.length > MAX_CHAT_LENGTH) return "too_long";
+  if (lastSentAt !== null && now - lastSentAt < MIN_CHAT_INTERVAL_MS) {
+    return "too_fast";
+  }
+  return null;
+}
+
+// Adds a message unless it's already there, keeping send order; the sender
+// can see their own message both from the insert and from a later refetch
+export function addChatMessage(messages: ChatMessage[], message: ChatMessage) {
+  if (messages.some((existing) => existing.id === message.id)) return messages;
+  return [...messages, message].sort((a, b) =>
+    a.created_at.localeCompare(b.created_at)
+  );
+}
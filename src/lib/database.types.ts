@@ -0,0 +1,115 @@
+// Generated with `supabase gen types typescript --local` and trimmed to the
+// tables whose rows are checked at runtime; regenerate after changing them.
+// jsonb columns come through as Json, so rows must pass roomSchema.ts before
+// they can be used as a GameRoom.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      game_rooms: {
+        Row: {
+          abandon_grace_seconds: number;
+          capacity: number;
+          clocks: Json | null;
+          created_at: string;
+          current_state: Json;
+          draw_offers: Json;
+          game_number: number;
+          game_over: boolean;
+          host_name: string | null;
+          id: string;
+          is_public: boolean;
+          player1_id: string;
+          player2_id: string | null;
+          rematch_votes: Json;
+          result_reason: string | null;
+          seats: Json;
+          series_wins: Json;
+          status: string;
+          takeback_votes: Json;
+          time_control: Json | null;
+          turn_deadline: string | null;
+          turn_started_at: string | null;
+          version: number;
+          winner: number | null;
+        };
+        Insert: {
+          abandon_grace_seconds?: number;
+          capacity?: number;
+          clocks?: Json | null;
+          created_at?: string;
+          current_state: Json;
+          draw_offers?: Json;
+          game_number?: number;
+          game_over?: boolean;
+          host_name?: string | null;
+          id?: string;
+          is_public?: boolean;
+          player1_id: string;
+          player2_id?: string | null;
+          rematch_votes?: Json;
+          result_reason?: string | null;
+          seats?: Json;
+          series_wins?: Json;
+          status?: string;
+          takeback_votes?: Json;
+          time_control?: Json | null;
+          turn_deadline?: string | null;
+          turn_started_at?: string | null;
+          version?: number;
+          winner?: number | null;
+        };
+        Update: {
+          abandon_grace_seconds?: number;
+          capacity?: number;
+          clocks?: Json | null;
+          created_at?: string;
+          current_state?: Json;
+          draw_offers?: Json;
+          game_number?: number;
+          game_over?: boolean;
+          host_name?: string | null;
+          id?: string;
+          is_public?: boolean;
+          player1_id?: string;
+          player2_id?: string | null;
+          rematch_votes?: Json;
+          result_reason?: string | null;
+          seats?: Json;
+          series_wins?: Json;
+          status?: string;
+          takeback_votes?: Json;
+          time_control?: Json | null;
+          turn_deadline?: string | null;
+          turn_started_at?: string | null;
+          version?: number;
+          winner?: number | null;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      [_ in never]: never;
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+export type Tables<T extends keyof Database["public"]["Tables"]> =
+  Database["public"]["Tables"][T]["Row"];
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { getAdjacentCells, getCriticalMass } from "./board.ts";
+import { STANDARD_VARIANT } from "./variant.ts";
+
+const shape = { size: { rows: 4, cols: 5 }, variant: STANDARD_VARIANT };
+
+describe("getCriticalMass", () => {
+  it("is 2 in every corner", () => {
+    for (const [row, col] of [
+      [0, 0],
+      [0, 4],
+      [3, 0],
+      [3, 4],
+    ]) {
+      expect(getCriticalMass(shape, row, col)).toBe(2);
+    }
+  });
+
+  it("is 3 along the edges", () => {
+    for (const [row, col] of [
+      [0, 2],
+      [3, 1],
+      [1, 0],
+      [2, 4],
+    ]) {
+      expect(getCriticalMass(shape, row, col)).toBe(3);
+    }
+  });
+
+  it("is 4 away from the edges", () => {
+    expect(getCriticalMass(shape, 1, 1)).toBe(4);
+    expect(getCriticalMass(shape, 2, 3)).toBe(4);
+  });
+});
+
+describe("getAdjacentCells", () => {
+  it("lists orthogonal neighbours on the board, up, down, left, right", () => {
+    expect(getAdjacentCells(shape, 0, 0)).toEqual([
+      { row: 1, col: 0 },
+      { row: 0, col: 1 },
+    ]);
+    expect(getAdjacentCells(shape, 2, 2)).toEqual([
+      { row: 1, col: 2 },
+      { row: 3, col: 2 },
+      { row: 2, col: 1 },
+      { row: 2, col: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import type {
+  Board,
+  BoardShape,
+  BoardSize,
+  Position,
+  Variant,
+} from "./types.ts";
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+
+// Smallest board where every cell still has a neighbour in each axis, and the
+// largest that stays playable on screen
+export const MIN_BOARD_DIMENSION = 3;
+export const MAX_BOARD_DIMENSION = 20;
+
+export function isValidBoardSize(size: BoardSize) {
+  return [size.rows, size.cols].every(
+    (dimension) =>
+      Number.isInteger(dimension) &&
+      dimension >= MIN_BOARD_DIMENSION &&
+      dimension <= MAX_BOARD_DIMENSION
+  );
+}
+
+export function createBoard(size: BoardSize): Board {
+  return Array(size.rows)
+    .fill(null)
+    .map(() =>
+      Array(size.cols)
+        .fill(null)
+        .map(() => ({ count: 0, player: null }))
+    );
+}
+
+export function cloneBoard(board: Board): Board {
+  return board.map((row) => row.map((cell) => ({ ...cell })));
+}
+
+export function getBoardSize(board: Board): BoardSize {
+  return { rows: board.length, cols: board[0]?.length ?? 0 };
+}
+
+export function isInBounds(size: BoardSize, row: number, col: number) {
+  return (
+    Number.isInteger(row) &&
+    Number.isInteger(col) &&
+    row >= 0 &&
+    row < size.rows &&
+    col >= 0 &&
+    col < size.cols
+  );
+}
+
+export function isWall(variant: Variant, row: number, col: number) {
+  return variant.walls.some((wall) => wall.row === row && wall.col === col);
+}
+
+// Up, down, left, right, then the diagonals. Explosions hand out atoms in
+// this order, so it must never change.
+const OFFSETS = [
+  [-1, 0],
+  [1, 0],
+  [0, -1],
+  [0, 1],
+  [-1, -1],
+  [-1, 1],
+  [1, -1],
+  [1, 1],
+];
+
+export function getAdjacentCells(
+  { size, variant }: BoardShape,
+  row: number,
+  col: number
+): Position[] {
+  const adjacent: Position[] = [];
+  for (const [rowOffset, colOffset] of OFFSETS.slice(0, variant.neighbours)) {
+    let next = { row: row + rowOffset, col: col + colOffset };
+    if (variant.wrap) {
+      next = {
+        row: (next.row + size.rows) % size.rows,
+        col: (next.col + size.cols) % size.cols,
+      };
+    } else if (!isInBounds(size, next.row, next.col)) {
+      continue;
+    }
+    if (!isWall(variant, next.row, next.col)) adjacent.push(next);
+  }
+  return adjacent;
+}
+
+// A cell explodes once it holds an atom for each neighbour: on the standard
+// board that's 2 in a corner, 3 along an edge and 4 elsewhere
+export function getCriticalMass(shape: BoardShape, row: number, col: number) {
+  return getAdjacentCells(shape, row, col).length;
+}
+
+export function getActivePlayers(board: Board): number[] {
+  const active = new Set<number>();
+
+  for (const row of board) {
+    for (const cell of row) {
+      if (cell.count > 0 && cell.player !== null) {
+        active.add(cell.player);
+      }
+    }
+  }
+
+  return Array.from(active);
+}
+
+export function getTotalAtoms(board: Board) {
+  let total = 0;
+
+  for (const row of board) {
+    for (const cell of row) {
+      total += cell.count;
+    }
+  }
+
+  return total;
+}
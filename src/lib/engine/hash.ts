@@ -0,0 +1,22 @@
+import type { Board } from "./types.ts";
+
+// FNV-1a over a canonical serialisation of the board. Not cryptographic, just
+// a cheap fingerprint to check replays reproduce the stored positions.
+export function hashBoard(board: Board): string {
+  const rows = board.length;
+  const cols = board[0]?.length ?? 0;
+  const cells = board
+    .map((row) =>
+      row.map((cell) => `${cell.count}.${cell.player ?? "-"}`).join(",")
+    )
+    .join("/");
+  const text = `${rows}x${cols}:${cells}`;
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
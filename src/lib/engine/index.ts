@@ -0,0 +1,8 @@
+export * from "./types.ts";
+export * from "./board.ts";
+export * from "./variant.ts";
+export * from "./moves.ts";
+export * from "./hash.ts";
+export * from "./replay.ts";
+export * from "./schema.ts";
+export * from "./notation.ts";
@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyMove,
+  createGameState,
+  getChainLength,
+  getMaxWaves,
+  getMoveError,
+} from "./moves.ts";
+import { decodePosition } from "./notation.ts";
+import { getGameStateError } from "./schema.ts";
+
+describe("getMoveError", () => {
+  const state = decodePosition("3x3 1a../..1b/... a 2 ab - 2");
+
+  it("allows empty cells and the mover's own", () => {
+    expect(getMoveError(state, { row: 0, col: 0, player: 0 })).toBeNull();
+    expect(getMoveError(state, { row: 2, col: 2, player: 0 })).toBeNull();
+  });
+
+  it("rejects opponents' cells, cells off the board and moving out of turn", () => {
+    expect(getMoveError(state, { row: 1, col: 2, player: 0 })).toBe(
+      "cell_owned_by_opponent"
+    );
+    expect(getMoveError(state, { row: 3, col: 0, player: 0 })).toBe(
+      "out_of_bounds"
+    );
+    expect(getMoveError(state, { row: 0, col: 1, player: 1 })).toBe(
+      "not_your_turn"
+    );
+  });
+});
+
+describe("applyMove", () => {
+  it("adds an atom and passes the turn", () => {
+    const { state, events } = applyMove(createGameState({ rows: 3, cols: 3 }), {
+      row: 1,
+      col: 1,
+      player: 0,
+    });
+
+    expect(state.board[1][1]).toEqual({ count: 1, player: 0 });
+    expect(state.currentPlayer).toBe(1);
+    expect(state.moveNumber).toBe(1);
+    expect(events).toEqual([{ type: "place", row: 1, col: 1, player: 0 }]);
+  });
+
+  it("explodes a corner at two atoms", () => {
+    const before = decodePosition("3x3 1a../.../..1b a 2 ab - 2");
+    const { state, events } = applyMove(before, { row: 0, col: 0, player: 0 });
+
+    expect(state.board[0][0]).toEqual({ count: 0, player: null });
+    expect(state.board[1][0]).toEqual({ count: 1, player: 0 });
+    expect(state.board[0][1]).toEqual({ count: 1, player: 0 });
+    expect(getChainLength(events)).toBe(1);
+  });
+
+  it("explodes an edge at three atoms", () => {
+    const before = decodePosition("3x3 .2a./.../..1b a 2 ab - 2");
+    const { state } = applyMove(before, { row: 0, col: 1, player: 0 });
+
+    expect(state.board[0][1]).toEqual({ count: 0, player: null });
+    for (const [row, col] of [
+      [0, 0],
+      [0, 2],
+      [1, 1],
+    ]) {
+      expect(state.board[row][col]).toEqual({ count: 1, player: 0 });
+    }
+  });
+
+  it("resolves a cascade wave by wave, capturing what it reaches", () => {
+    // a1 tips b1 over, which tips c1 over, which lands on the opponent
+    const before = decodePosition("3x3 1a2a1a/..1b/..1b a 2 ab - 4");
+    const { state, events } = applyMove(before, { row: 0, col: 0, player: 0 });
+
+    const waves = events.flatMap((event) =>
+      event.type === "wave" ? [event.wave] : []
+    );
+    expect(waves.map((wave) => wave.explosions)).toEqual([
+      [
+        {
+          row: 0,
+          col: 0,
+          targets: [
+            { row: 1, col: 0 },
+            { row: 0, col: 1 },
+          ],
+        },
+      ],
+      [
+        {
+          row: 0,
+          col: 1,
+          targets: [
+            { row: 1, col: 1 },
+            { row: 0, col: 0 },
+            { row: 0, col: 2 },
+          ],
+        },
+      ],
+      [
+        {
+          row: 0,
+          col: 2,
+          targets: [
+            { row: 1, col: 2 },
+            { row: 0, col: 1 },
+          ],
+        },
+      ],
+    ]);
+    expect(waves[2].captures).toEqual([{ row: 1, col: 2, previousOwner: 1 }]);
+    expect(state.board[1][2]).toEqual({ count: 2, player: 0 });
+    // The last wave's board is the one the move leaves
+    expect(waves[2].board).toEqual(state.board);
+    expect(state.gameOver).toBe(false);
+  });
+
+  it("wins once the last opponent atom is captured", () => {
+    const before = decodePosition("3x3 1a1b./.../... a 2 ab - 2");
+    const { state, events } = applyMove(before, { row: 0, col: 0, player: 0 });
+
+    expect(state.gameOver).toBe(true);
+    expect(state.winner).toBe(0);
+    expect(state.eliminated).toEqual([1]);
+    expect(state.standings).toEqual([0, 1]);
+    expect(state.resultReason).toBe("elimination");
+    expect(events.slice(-2)).toEqual([
+      { type: "eliminate", player: 1 },
+      { type: "win", player: 0 },
+    ]);
+  });
+
+  it("knocks out players one at a time in bigger games", () => {
+    const before = decodePosition("3x3 1a1b./.../..1c a 3 abc - 3");
+    const { state } = applyMove(before, { row: 0, col: 0, player: 0 });
+
+    expect(state.gameOver).toBe(false);
+    expect(state.eliminated).toEqual([1]);
+    // Seat 1 is skipped from now on
+    expect(state.currentPlayer).toBe(2);
+  });
+});
+
+describe("cascades that never settle", () => {
+  // Every cell one short of exploding: one more atom is more than the board
+  // can hold, so the chain reaction goes round forever. Seat 1 hasn't moved
+  // and has no atoms to lose, so the game is never decided either; this used
+  // to hang.
+  const saturated = decodePosition("3x3 1a2a1a/2a3a2a/1a2a1a a 2 a - 5");
+
+  it("stop at the wave cap", () => {
+    const { events } = applyMove(saturated, { row: 1, col: 1, player: 0 });
+
+    const waves = events.filter((event) => event.type === "wave");
+    expect(waves).toHaveLength(getMaxWaves(saturated.size));
+  });
+
+  it("end the game as a win for the mover", () => {
+    const { state, events } = applyMove(saturated, {
+      row: 1,
+      col: 1,
+      player: 0,
+    });
+
+    expect(state.gameOver).toBe(true);
+    expect(state.winner).toBe(0);
+    expect(state.standings).toEqual([0, 1]);
+    expect(events.slice(-2)).toEqual([
+      { type: "eliminate", player: 1 },
+      { type: "win", player: 0 },
+    ]);
+    // Cells left over critical mass are fine once the game is over
+    expect(getGameStateError({ ...state })).toBeNull();
+  });
+});
+
+describe("first moves", () => {
+  it("don't knock out seats that haven't had a turn yet", () => {
+    let state = createGameState({ rows: 3, cols: 3 }, 3);
+    state = applyMove(state, { row: 0, col: 0, player: 0 }).state;
+    state = applyMove(state, { row: 2, col: 2, player: 1 }).state;
+
+    expect(state.eliminated).toEqual([]);
+    expect(state.gameOver).toBe(false);
+    expect(state.currentPlayer).toBe(2);
+  });
+});
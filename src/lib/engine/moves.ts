@@ -0,0 +1,387 @@
+import {
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+  cloneBoard,
+  createBoard,
+  getActivePlayers,
+  getAdjacentCells,
+  getCriticalMass,
+  isInBounds,
+  isWall,
+} from "./board.ts";
+import type {
+  Board,
+  BoardShape,
+  BoardSize,
+  Capture,
+  Explosion,
+  GameEvent,
+  GameState,
+  Move,
+  MoveError,
+  MoveResult,
+  Position,
+  ResultReason,
+  Variant,
+} from "./types.ts";
+import { GAME_STATE_VERSION } from "./schema.ts";
+import { STANDARD_VARIANT, getVariantError } from "./variant.ts";
+
+export function createGameState(
+  size: BoardSize,
+  playerCount = 2,
+  firstPlayer = 0,
+  variant: Variant = STANDARD_VARIANT
+): GameState {
+  if (
+    !Number.isInteger(playerCount) ||
+    playerCount < MIN_PLAYERS ||
+    playerCount > MAX_PLAYERS
+  ) {
+    throw new Error(`Unsupported player count: ${playerCount}`);
+  }
+
+  if (
+    !Number.isInteger(firstPlayer) ||
+    firstPlayer < 0 ||
+    firstPlayer >= playerCount
+  ) {
+    throw new Error(`Unsupported first player: ${firstPlayer}`);
+  }
+
+  const variantError = getVariantError(size, variant);
+  if (variantError) throw new Error(`Unsupported variant: ${variantError}`);
+
+  return {
+    schemaVersion: GAME_STATE_VERSION,
+    size: { ...size },
+    variant: { ...variant, walls: variant.walls.map((wall) => ({ ...wall })) },
+    board: createBoard(size),
+    playerCount,
+    currentPlayer: firstPlayer,
+    hasMoved: Array(playerCount).fill(false),
+    eliminated: [],
+    standings: [],
+    gameOver: false,
+    winner: null,
+    resultReason: null,
+    moveNumber: 0,
+    lastMove: null,
+  };
+}
+
+// Who moves first in a room's `gameNumber`th game: the first seat opens, and
+// each rematch hands the first turn to the next seat along
+export function getFirstPlayer(gameNumber: number, playerCount: number) {
+  return (gameNumber - 1) % playerCount;
+}
+
+// The next seat after `player` that is still in the game
+export function getNextPlayer(
+  player: number,
+  playerCount: number,
+  eliminated: number[]
+) {
+  for (let offset = 1; offset <= playerCount; offset++) {
+    const next = (player + offset) % playerCount;
+    if (!eliminated.includes(next)) return next;
+  }
+  return player;
+}
+
+export function getMoveError(state: GameState, move: Move): MoveError | null {
+  if (state.gameOver) return "game_over";
+  if (move.player !== state.currentPlayer) return "not_your_turn";
+  if (!isInBounds(state.size, move.row, move.col)) {
+    return "out_of_bounds";
+  }
+  if (isWall(state.variant, move.row, move.col)) return "wall";
+
+  // Players may only add atoms to empty cells or cells they already own
+  const cell = state.board[move.row][move.col];
+  if (cell.count > 0 && cell.player !== move.player) {
+    return "cell_owned_by_opponent";
+  }
+
+  return null;
+}
+
+export function isLegalMove(state: GameState, move: Move) {
+  return getMoveError(state, move) === null;
+}
+
+// Every cell the player to move may play, in row-major order
+export function getLegalMoves(state: GameState): Move[] {
+  if (state.gameOver) return [];
+
+  const moves: Move[] = [];
+  const player = state.currentPlayer;
+  state.board.forEach((cells, row) =>
+    cells.forEach((cell, col) => {
+      if (
+        (cell.count === 0 && !isWall(state.variant, row, col)) ||
+        cell.player === player
+      ) {
+        moves.push({ row, col, player });
+      }
+    })
+  );
+  return moves;
+}
+
+// Once one player owns every atom a cascade can cycle forever, so stop as
+// soon as the game is decided; the cap is a backstop for positions where it
+// can't be (e.g. a seat that hasn't moved yet has no atoms to lose). A
+// cascade still going at the cap never settles, and wins for the mover.
+export function getMaxWaves(size: BoardSize) {
+  return size.rows * size.cols * 8;
+}
+
+// Seats that would be knocked out if the board stayed as it is
+function getNewlyEliminated(
+  state: GameState,
+  board: Board,
+  hasMoved: boolean[]
+) {
+  const activePlayers = getActivePlayers(board);
+  const eliminated: number[] = [];
+
+  for (let seat = 0; seat < state.playerCount; seat++) {
+    if (
+      hasMoved[seat] &&
+      !state.eliminated.includes(seat) &&
+      !activePlayers.includes(seat)
+    ) {
+      eliminated.push(seat);
+    }
+  }
+
+  return eliminated;
+}
+
+function getRemainingSeats(state: GameState) {
+  return Array.from({ length: state.playerCount }, (_, seat) => seat).filter(
+    (seat) => !state.eliminated.includes(seat)
+  );
+}
+
+// Resolves every explosion triggered from (row, col) wave by wave, mutating
+// the board, until it is stable or isDecided reports the game is won.
+// Returns true when it was cut off at the cap instead.
+function resolveExplosions(
+  board: Board,
+  shape: BoardShape,
+  row: number,
+  col: number,
+  player: number,
+  events: GameEvent[],
+  isDecided: (board: Board) => boolean
+) {
+  let unstable: Position[] = [{ row, col }];
+  let waveIndex = 0;
+  const maxWaves = getMaxWaves(shape.size);
+
+  while (unstable.length > 0 && waveIndex < maxWaves) {
+    const explosions: Explosion[] = [];
+    const captures: Capture[] = [];
+    const next = new Map<string, Position>();
+
+    for (const current of unstable) {
+      const cell = board[current.row][current.col];
+      const criticalMass = getCriticalMass(shape, current.row, current.col);
+      if (cell.count < criticalMass) continue;
+
+      cell.count -= criticalMass;
+      if (cell.count === 0) cell.player = null;
+
+      const targets = getAdjacentCells(shape, current.row, current.col);
+      explosions.push({ ...current, targets });
+
+      for (const adj of targets) {
+        const neighbour = board[adj.row][adj.col];
+        if (neighbour.player !== null && neighbour.player !== player) {
+          captures.push({ ...adj, previousOwner: neighbour.player });
+        }
+        neighbour.count++;
+        neighbour.player = player;
+
+        if (neighbour.count >= getCriticalMass(shape, adj.row, adj.col)) {
+          next.set(`${adj.row},${adj.col}`, adj);
+        }
+      }
+    }
+
+    if (explosions.length === 0) return false;
+
+    events.push({
+      type: "wave",
+      index: waveIndex++,
+      wave: { explosions, captures, board: cloneBoard(board) },
+    });
+
+    // A cell still over critical mass after exploding goes again next wave
+    for (const current of unstable) {
+      const cell = board[current.row][current.col];
+      if (cell.count >= getCriticalMass(shape, current.row, current.col)) {
+        next.set(`${current.row},${current.col}`, current);
+      }
+    }
+    unstable = Array.from(next.values());
+
+    if (isDecided(board)) return false;
+  }
+
+  return unstable.length > 0;
+}
+
+export function applyMove(state: GameState, move: Move): MoveResult {
+  const error = getMoveError(state, move);
+  if (error) {
+    throw new Error(`Illegal move: ${error}`);
+  }
+
+  const board = cloneBoard(state.board);
+  const events: GameEvent[] = [
+    { type: "place", row: move.row, col: move.col, player: move.player },
+  ];
+
+  board[move.row][move.col].count++;
+  board[move.row][move.col].player = move.player;
+
+  const hasMoved = [...state.hasMoved];
+  hasMoved[move.player] = true;
+  const remainingBefore = state.playerCount - state.eliminated.length;
+
+  const isEndless = resolveExplosions(
+    board,
+    state,
+    move.row,
+    move.col,
+    move.player,
+    events,
+    (board) =>
+      remainingBefore - getNewlyEliminated(state, board, hasMoved).length === 1
+  );
+
+  const eliminated = [
+    ...state.eliminated,
+    ...(isEndless
+      ? getRemainingSeats(state).filter((seat) => seat !== move.player)
+      : getNewlyEliminated(state, board, hasMoved)),
+  ];
+  for (const seat of eliminated.slice(state.eliminated.length)) {
+    events.push({ type: "eliminate", player: seat });
+  }
+
+  const remaining = state.playerCount - eliminated.length;
+  const gameOver = remaining === 1;
+  const winner = gameOver ? move.player : null;
+  if (winner !== null) events.push({ type: "win", player: winner });
+
+  return {
+    state: {
+      schemaVersion: GAME_STATE_VERSION,
+      size: state.size,
+      variant: state.variant,
+      board,
+      playerCount: state.playerCount,
+      currentPlayer: getNextPlayer(
+        state.currentPlayer,
+        state.playerCount,
+        eliminated
+      ),
+      hasMoved,
+      eliminated,
+      standings: winner !== null ? [winner, ...[...eliminated].reverse()] : [],
+      gameOver,
+      winner,
+      resultReason: gameOver ? "elimination" : null,
+      moveNumber: state.moveNumber + 1,
+      lastMove: { row: move.row, col: move.col, player: move.player },
+    },
+    events,
+  };
+}
+
+// How many cells exploded in the cascade a move set off
+export function getChainLength(events: GameEvent[]) {
+  return events.reduce(
+    (total, event) =>
+      event.type === "wave" ? total + event.wave.explosions.length : total,
+    0
+  );
+}
+
+// Knocks `player` out without a move, clearing their atoms so the cells are
+// free for everyone else; `reason` is why, should that end the game
+export function forfeitPlayer(
+  state: GameState,
+  player: number,
+  reason: ResultReason = "timeout"
+): MoveResult {
+  if (state.gameOver) throw new Error("Illegal forfeit: game_over");
+  if (
+    !Number.isInteger(player) ||
+    player < 0 ||
+    player >= state.playerCount ||
+    state.eliminated.includes(player)
+  ) {
+    throw new Error(`Illegal forfeit: player ${player} is not in the game`);
+  }
+
+  const board = cloneBoard(state.board);
+  for (const cells of board) {
+    for (const cell of cells) {
+      if (cell.player === player) {
+        cell.count = 0;
+        cell.player = null;
+      }
+    }
+  }
+
+  const eliminated = [...state.eliminated, player];
+  const events: GameEvent[] = [{ type: "eliminate", player }];
+
+  const remaining = state.playerCount - eliminated.length;
+  const gameOver = remaining === 1;
+  const winner = gameOver
+    ? getNextPlayer(player, state.playerCount, eliminated)
+    : null;
+  if (winner !== null) events.push({ type: "win", player: winner });
+
+  return {
+    state: {
+      ...state,
+      board,
+      currentPlayer:
+        state.currentPlayer === player
+          ? getNextPlayer(player, state.playerCount, eliminated)
+          : state.currentPlayer,
+      eliminated,
+      standings: winner !== null ? [winner, ...[...eliminated].reverse()] : [],
+      gameOver,
+      winner,
+      resultReason: gameOver ? reason : null,
+      moveNumber: state.moveNumber + 1,
+      lastMove: null,
+    },
+    events,
+  };
+}
+
+// Ends the game with nobody winning, as everyone still in it agreed
+export function drawGame(state: GameState): GameState {
+  if (state.gameOver) throw new Error("Illegal draw: game_over");
+
+  const remaining = getRemainingSeats(state);
+
+  return {
+    ...state,
+    standings: [...remaining, ...[...state.eliminated].reverse()],
+    gameOver: true,
+    winner: null,
+    resultReason: "draw",
+    moveNumber: state.moveNumber + 1,
+    lastMove: null,
+  };
+}
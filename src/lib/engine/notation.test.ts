@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { applyMove, createGameState } from "./moves.ts";
+import { decodePosition, encodePosition } from "./notation.ts";
+
+describe("encodePosition", () => {
+  it("writes the board, whose turn it is and who has moved", () => {
+    let state = createGameState({ rows: 3, cols: 3 });
+    state = applyMove(state, { row: 0, col: 0, player: 0 }).state;
+    state = applyMove(state, { row: 2, col: 1, player: 1 }).state;
+
+    expect(encodePosition(state)).toBe("3x3 1a../.../.1b. a 2 ab - 2");
+  });
+});
+
+describe("decodePosition", () => {
+  it("reads back what encodePosition wrote", () => {
+    let state = createGameState({ rows: 4, cols: 5 }, 3, 1);
+    for (const [row, col, player] of [
+      [0, 0, 1],
+      [3, 4, 2],
+      [0, 1, 0],
+    ]) {
+      state = applyMove(state, { row, col, player }).state;
+    }
+
+    expect(decodePosition(encodePosition(state))).toEqual({
+      ...state,
+      lastMove: null,
+    });
+  });
+
+  it("rejects impossible player counts before building anything", () => {
+    const started = performance.now();
+    expect(() => decodePosition("3x3 .../.../... a 50000000 - - 0")).toThrow(
+      "expected 2 to 8 players"
+    );
+    expect(() => decodePosition("3x3 .../.../... a 1 - - 0")).toThrow(
+      "expected 2 to 8 players"
+    );
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+
+  it("rejects boards of the wrong shape or size", () => {
+    expect(() => decodePosition("3x3 .../... a 2 - - 0")).toThrow(
+      "expected 3 rows"
+    );
+    expect(() => decodePosition("3x3 .../..../... a 2 - - 0")).toThrow(
+      "row 2 should describe 3 cells"
+    );
+    expect(() => decodePosition("2x2 ../.. a 2 - - 0")).toThrow(
+      "unsupported board size"
+    );
+  });
+
+  it("rejects positions no game could reach", () => {
+    // Two atoms in a corner would already have exploded
+    expect(() => decodePosition("3x3 2a../.../... b 2 a - 1")).toThrow(
+      "Invalid position"
+    );
+    // Seat b has atoms but has never moved
+    expect(() => decodePosition("3x3 1a../.../..1b a 2 a - 2")).toThrow(
+      "a seat has atoms without having moved"
+    );
+  });
+});
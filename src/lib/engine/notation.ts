@@ -0,0 +1,183 @@
+import {
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+  getActivePlayers,
+  isValidBoardSize,
+  isWall,
+} from "./board.ts";
+import { getGameStateError, GAME_STATE_VERSION } from "./schema.ts";
+import { formatVariant, parseVariant } from "./variant.ts";
+import type { Board, GameState, Position, Variant } from "./types.ts";
+
+// A one-line text form of a position, for bug reports and sharing, e.g.
+//
+//   3x3 2a../.../1b.. a 2 ab - 2
+//
+// Fields are separated by spaces:
+//   1. rows x cols
+//   2. the board, top row first, rows separated by "/": a count and a seat
+//      letter for each cell holding atoms ("2a" is two of seat 0's atoms),
+//      "." for each empty cell and "#" for each wall
+//   3. the seat to move
+//   4. how many seats the game has
+//   5. the seats that have moved, or "-" for none
+//   6. the seats knocked out, in order, or "-" for none
+//   7. how many turns have been taken
+//   8. the variant, e.g. "torus+eight"; left off for the standard game
+//
+// Only the position is kept: the game is over once one seat is left, and
+// results decided any other way (a draw, a resignation) aren't recorded.
+
+const SEAT_LETTERS = "abcdefgh".slice(0, MAX_PLAYERS);
+
+function getSeatLetter(seat: number) {
+  return SEAT_LETTERS[seat];
+}
+
+function encodeSeats(seats: number[]) {
+  return seats.length > 0 ? seats.map(getSeatLetter).join("") : "-";
+}
+
+function encodeBoard(board: Board, variant: Variant) {
+  return board
+    .map((cells, row) =>
+      cells
+        .map((cell, col) =>
+          isWall(variant, row, col)
+            ? "#"
+            : cell.count === 0
+              ? "."
+              : `${cell.count}${getSeatLetter(cell.player!)}`
+        )
+        .join("")
+    )
+    .join("/");
+}
+
+export function encodePosition(state: GameState) {
+  const { size, variant, board, currentPlayer, playerCount, hasMoved } = state;
+  const moved = hasMoved.flatMap((isMoved, seat) => (isMoved ? [seat] : []));
+  const rules = formatVariant(variant);
+
+  return [
+    `${size.rows}x${size.cols}`,
+    encodeBoard(board, variant),
+    getSeatLetter(currentPlayer),
+    playerCount,
+    encodeSeats(moved),
+    encodeSeats(state.eliminated),
+    state.moveNumber,
+    ...(rules === "standard" ? [] : [rules]),
+  ].join(" ");
+}
+
+function invalid(reason: string): never {
+  throw new Error(`Invalid position: ${reason}`);
+}
+
+function decodeSeat(letter: string) {
+  const seat = SEAT_LETTERS.indexOf(letter);
+  if (letter.length !== 1 || seat < 0) invalid(`unknown seat "${letter}"`);
+  return seat;
+}
+
+function decodeSeats(field: string) {
+  return field === "-" ? [] : Array.from(field, decodeSeat);
+}
+
+function decodeNumber(field: string, name: string) {
+  if (!/^\d+$/.test(field)) invalid(`${name} must be a number`);
+  return Number(field);
+}
+
+// The board and where its walls are
+function decodeBoard(field: string, rows: number, cols: number) {
+  const ranks = field.split("/");
+  if (ranks.length !== rows) invalid(`expected ${rows} rows`);
+
+  const walls: Position[] = [];
+  const board: Board = ranks.map((rank, row) => {
+    const matches = Array.from(rank.matchAll(/[.#]|(\d+)([a-z])/g));
+    if (!/^([.#]|\d+[a-z])*$/.test(rank) || matches.length !== cols) {
+      invalid(`row ${row + 1} should describe ${cols} cells`);
+    }
+
+    return matches.map((match, col) => {
+      if (match[0] === "#") walls.push({ row, col });
+      return match[1] === undefined
+        ? { count: 0, player: null }
+        : { count: Number(match[1]), player: decodeSeat(match[2]) };
+    });
+  });
+  return { board, walls };
+}
+
+// Reads a position written by encodePosition, throwing when it is malformed
+// or couldn't arise in a real game
+export function decodePosition(notation: string): GameState {
+  const fields = notation.trim().split(/\s+/);
+  if (fields.length !== 7 && fields.length !== 8) {
+    invalid("expected 7 or 8 fields");
+  }
+
+  const [sizeField, boardField, toMove, players, moved, out, turns, rules] =
+    fields;
+  const size = /^(\d+)x(\d+)$/.exec(sizeField);
+  if (!size) invalid("size must look like 6x6");
+
+  const rows = Number(size[1]);
+  const cols = Number(size[2]);
+  if (!isValidBoardSize({ rows, cols })) invalid("unsupported board size");
+  const { board, walls } = decodeBoard(boardField, rows, cols);
+  const variant = parseVariant(rules ?? "standard", walls);
+  if (!variant) {
+    invalid(`variant "${rules ?? "standard"}" doesn't match the walls`);
+  }
+  // Checked before anything is sized by it
+  const playerCount = decodeNumber(players, "player count");
+  if (playerCount < MIN_PLAYERS || playerCount > MAX_PLAYERS) {
+    invalid(`expected ${MIN_PLAYERS} to ${MAX_PLAYERS} players`);
+  }
+  const hasMoved = Array.from({ length: playerCount }, () => false);
+  for (const seat of decodeSeats(moved)) hasMoved[seat] = true;
+
+  const eliminated = decodeSeats(out);
+  const remaining = Array.from(
+    { length: playerCount },
+    (_, seat) => seat
+  ).filter((seat) => !eliminated.includes(seat));
+  const gameOver = remaining.length === 1;
+  const winner = gameOver ? remaining[0] : null;
+
+  const state: GameState = {
+    schemaVersion: GAME_STATE_VERSION,
+    size: { rows, cols },
+    variant,
+    board,
+    playerCount,
+    currentPlayer: decodeSeat(toMove),
+    hasMoved,
+    eliminated,
+    standings: gameOver ? [winner!, ...[...eliminated].reverse()] : [],
+    gameOver,
+    winner,
+    resultReason: gameOver ? "elimination" : null,
+    moveNumber: decodeNumber(turns, "move number"),
+    lastMove: null,
+  };
+
+  const error = getGameStateError({ ...state });
+  if (error) invalid(error);
+
+  // Knocked-out seats have nothing left on the board, and every seat with
+  // atoms on it has had a turn
+  const active = getActivePlayers(board);
+  if (eliminated.some((seat) => active.includes(seat))) {
+    invalid("a knocked-out seat still has atoms");
+  }
+  if (active.some((seat) => !hasMoved[seat])) {
+    invalid("a seat has atoms without having moved");
+  }
+
+  return state;
+}
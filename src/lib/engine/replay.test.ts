@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { createGameState, getFirstPlayer } from "./moves.ts";
+import { replayMoves } from "./replay.ts";
+
+describe("replayMoves", () => {
+  const initial = createGameState({ rows: 3, cols: 3 });
+
+  it("ends the game the way the deciding forfeit did", () => {
+    const states = replayMoves(initial, [
+      { row: 0, col: 0, player: 0 },
+      { player: 1, forfeit: true, reason: "resignation" },
+    ]);
+
+    expect(states).toHaveLength(3);
+    expect(states[2].winner).toBe(0);
+    expect(states[2].resultReason).toBe("resignation");
+  });
+
+  it("treats forfeits recorded without a reason as timeouts", () => {
+    const states = replayMoves(initial, [{ player: 0, forfeit: true }]);
+    expect(states[1].resultReason).toBe("timeout");
+  });
+});
+
+describe("getFirstPlayer", () => {
+  it("starts with the first seat and passes the first turn along", () => {
+    expect([1, 2, 3, 4].map((game) => getFirstPlayer(game, 3))).toEqual([
+      0, 1, 2, 0,
+    ]);
+  });
+});
@@ -0,0 +1,26 @@
+import { applyMove, drawGame, forfeitPlayer } from "./moves.ts";
+import type { Draw, Forfeit, GameState, Move } from "./types.ts";
+
+// Returns the state before any turn followed by the state after each one
+export function replayMoves(
+  initial: GameState,
+  moves: Array<Move | Forfeit | Draw>
+): GameState[] {
+  const states = [initial];
+
+  for (const move of moves) {
+    const previous = states[states.length - 1];
+    if ("draw" in move) {
+      states.push(drawGame(previous));
+      continue;
+    }
+
+    const { state } =
+      "forfeit" in move
+        ? forfeitPlayer(previous, move.player, move.reason)
+        : applyMove(previous, move);
+    states.push(state);
+  }
+
+  return states;
+}
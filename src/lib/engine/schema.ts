@@ -0,0 +1,233 @@
+import {
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+  getCriticalMass,
+  isValidBoardSize,
+  isWall,
+} from "./board.ts";
+import { STANDARD_VARIANT, getVariantError } from "./variant.ts";
+import type { GameState, ResultReason } from "./types.ts";
+
+// Stored states outlive the code that wrote them: rooms in the database,
+// archived results and games saved in the browser. Every state carries the
+// schema version it was written with, and older ones are upgraded step by
+// step before anything reads them.
+
+// Bump this, and add the step from the previous version to MIGRATIONS,
+// whenever GameState changes shape
+export const GAME_STATE_VERSION = 2;
+
+type StoredState = Record<string, unknown>;
+
+export const RESULT_REASONS: ResultReason[] = [
+  "elimination",
+  "timeout",
+  "abandonment",
+  "resignation",
+  "draw",
+];
+
+// Upgrades a state to the next version, keyed by the version it starts at
+const MIGRATIONS: Record<number, (state: StoredState) => StoredState> = {
+  // States from before versioning, which gained fields one at a time; fill
+  // in whichever are missing the way the database migrations did
+  0: (state) => {
+    const board = Array.isArray(state.board) ? state.board : [];
+    const moveNumber = state.moveNumber ?? 0;
+    const playerCount = state.playerCount ?? 2;
+    const winner = state.winner ?? null;
+    // Before more players, a finished game had one winner and one loser
+    const loser = typeof winner === "number" ? [1 - winner] : [];
+
+    return {
+      ...state,
+      schemaVersion: 1,
+      size: state.size ?? { rows: board.length, cols: board[0]?.length ?? 0 },
+      playerCount,
+      // Seats take their first turns in order, and anyone with atoms on the
+      // board has had one even if the state predates move numbers
+      hasMoved:
+        state.hasMoved ??
+        Array.from(
+          { length: Number(playerCount) },
+          (_, seat) =>
+            Number(moveNumber) > seat ||
+            board.some(
+              (row) =>
+                Array.isArray(row) &&
+                row.some((cell) => cell?.count > 0 && cell.player === seat)
+            )
+        ),
+      eliminated: state.eliminated ?? loser,
+      standings: state.standings ?? (loser.length ? [winner, ...loser] : []),
+      winner,
+      resultReason:
+        state.resultReason ?? (state.gameOver ? "elimination" : null),
+      moveNumber,
+      lastMove: state.lastMove ?? null,
+    };
+  },
+  // Everything before variants was played on the standard board
+  1: (state) => ({
+    ...state,
+    schemaVersion: 2,
+    variant: { ...STANDARD_VARIANT, walls: [] },
+  }),
+};
+
+// Brings a stored state up to GAME_STATE_VERSION, or returns null when it
+// isn't a state at all or comes from a newer version of the game
+export function migrateGameState(stored: unknown): StoredState | null {
+  if (typeof stored !== "object" || stored === null) return null;
+
+  let state = stored as StoredState;
+  let version: unknown = state.schemaVersion ?? 0;
+  while (version !== GAME_STATE_VERSION) {
+    const migrate =
+      typeof version === "number" ? MIGRATIONS[version] : undefined;
+    if (!migrate) return null;
+    state = migrate(state);
+    version = state.schemaVersion;
+  }
+  return state;
+}
+
+function isInteger(value: unknown, min: number, max: number) {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+// Distinct seats, each below playerCount
+function isSeatList(value: unknown, playerCount: number) {
+  return (
+    Array.isArray(value) &&
+    value.every((seat) => isInteger(seat, 0, playerCount - 1)) &&
+    new Set(value).size === value.length
+  );
+}
+
+// What's wrong with a state of the current version, or null if it can be
+// played from. Checks that it's well formed and that it could have come from
+// a real game, e.g. no cell holds atoms without an owner.
+export function getGameStateError(stored: StoredState): string | null {
+  const state = stored as Partial<GameState>;
+  const { size, board, playerCount } = state;
+
+  if (
+    typeof size !== "object" ||
+    size === null ||
+    !isValidBoardSize(size as GameState["size"])
+  ) {
+    return "invalid board size";
+  }
+  if (
+    !Array.isArray(board) ||
+    board.length !== size.rows ||
+    !board.every((row) => Array.isArray(row) && row.length === size.cols)
+  ) {
+    return "board does not match its size";
+  }
+  const variantError = getVariantError(size, state.variant!);
+  if (variantError) return `invalid variant: ${variantError}`;
+  const shape = { size, variant: state.variant! };
+  if (!isInteger(playerCount, MIN_PLAYERS, MAX_PLAYERS)) {
+    return "invalid player count";
+  }
+
+  const isOver = state.gameOver === true;
+  for (let row = 0; row < size.rows; row++) {
+    for (let col = 0; col < size.cols; col++) {
+      const cell = board[row][col];
+      if (typeof cell !== "object" || cell === null) return "invalid cell";
+
+      const { count, player } = cell;
+      // A decided game stops mid-cascade, so its cells may be left over
+      // critical mass; walls never hold anything
+      const maxCount = isWall(shape.variant, row, col)
+        ? 0
+        : isOver
+          ? Number.MAX_SAFE_INTEGER
+          : getCriticalMass(shape, row, col) - 1;
+      if (!isInteger(count, 0, maxCount)) {
+        return `cell ${row},${col} has an impossible atom count`;
+      }
+      if (
+        count === 0 ? player !== null : !isInteger(player, 0, playerCount! - 1)
+      ) {
+        return `cell ${row},${col} has an impossible owner`;
+      }
+    }
+  }
+
+  if (!isInteger(state.currentPlayer, 0, playerCount! - 1)) {
+    return "invalid current player";
+  }
+  if (
+    !Array.isArray(state.hasMoved) ||
+    state.hasMoved.length !== playerCount ||
+    !state.hasMoved.every((moved) => typeof moved === "boolean")
+  ) {
+    return "invalid record of who has moved";
+  }
+  if (!isSeatList(state.eliminated, playerCount!)) {
+    return "invalid eliminated seats";
+  }
+  if (!isSeatList(state.standings, playerCount!)) {
+    return "invalid standings";
+  }
+  if (typeof state.gameOver !== "boolean") return "invalid game over flag";
+  if (state.winner !== null && !isInteger(state.winner, 0, playerCount! - 1)) {
+    return "invalid winner";
+  }
+  if (
+    state.resultReason !== null &&
+    !RESULT_REASONS.includes(state.resultReason!)
+  ) {
+    return "invalid result reason";
+  }
+  if ((state.resultReason !== null) !== isOver) {
+    return "result reason does not match whether the game is over";
+  }
+  if (!isOver && state.eliminated!.includes(state.currentPlayer!)) {
+    return "an eliminated seat is to move";
+  }
+  if (!isInteger(state.moveNumber, 0, Number.MAX_SAFE_INTEGER)) {
+    return "invalid move number";
+  }
+
+  const { lastMove } = state;
+  if (
+    lastMove !== null &&
+    (typeof lastMove !== "object" ||
+      !isInteger(lastMove?.row, 0, size.rows - 1) ||
+      !isInteger(lastMove?.col, 0, size.cols - 1) ||
+      !isInteger(lastMove?.player, 0, playerCount! - 1) ||
+      isWall(shape.variant, lastMove.row, lastMove.col))
+  ) {
+    return "invalid last move";
+  }
+
+  return null;
+}
+
+// A stored state upgraded and checked, or null (saying why) when it can't be
+// played from
+export function parseGameState(stored: unknown): GameState | null {
+  const state = migrateGameState(stored);
+  if (!state) {
+    console.error("Unrecognised game state version:", stored);
+    return null;
+  }
+
+  const error = getGameStateError(state);
+  if (error) {
+    console.error("Invalid game state:", error);
+    return null;
+  }
+
+  return state as unknown as GameState;
+}
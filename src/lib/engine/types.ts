@@ -0,0 +1,123 @@
+export interface Cell {
+  count: number;
+  player: number | null;
+}
+
+export type Board = Cell[][];
+
+export interface BoardSize {
+  rows: number;
+  cols: number;
+}
+
+export interface Position {
+  row: number;
+  col: number;
+}
+
+// Rules that change which cells touch; see variant.ts. A cell's critical
+// mass is always the number of neighbours it has.
+export interface Variant {
+  // Whether the edges wrap around to the opposite side, making a torus
+  wrap: boolean;
+  // 4 for the orthogonal neighbours, 8 to add the diagonals
+  neighbours: 4 | 8;
+  // Blocked cells, which hold no atoms and aren't anyone's neighbour
+  walls: Position[];
+}
+
+export interface Move extends Position {
+  player: number;
+}
+
+// A seat dropping out of the game instead of moving, e.g. when its clock
+// runs out
+export interface Forfeit {
+  player: number;
+  forfeit: true;
+  // Why, where known; forfeits without one replay as timeouts
+  reason?: ResultReason;
+}
+
+// Everyone still in the game agreeing to end it with no winner; `player` is
+// the seat whose agreement settled it
+export interface Draw {
+  player: number;
+  draw: true;
+}
+
+// How a finished game was decided
+export type ResultReason =
+  "elimination" | "timeout" | "abandonment" | "resignation" | "draw";
+
+export interface GameState {
+  // Which shape of state this is, so older stored states can be upgraded;
+  // see schema.ts
+  schemaVersion: number;
+  size: BoardSize;
+  variant: Variant;
+  board: Board;
+  // Players are seats 0..playerCount-1 and move in seat order
+  playerCount: number;
+  currentPlayer: number;
+  // Whether each seat has placed an atom yet; a seat can only be knocked out
+  // once it has
+  hasMoved: boolean[];
+  // Seats that have lost all their atoms or forfeited, in the order they
+  // were knocked out
+  eliminated: number[];
+  // Winner first, then the rest in reverse elimination order; empty until
+  // the game is over. After a draw, everyone still in comes first.
+  standings: number[];
+  gameOver: boolean;
+  // Null while the game is on, and after a draw
+  winner: number | null;
+  // Null until the game is over
+  resultReason: ResultReason | null;
+  // Number of turns taken so far; increases by one with every move, forfeit
+  // or agreed draw
+  moveNumber: number;
+  // The move that produced this state, so clients can replay it to animate;
+  // null after a forfeit or a draw
+  lastMove: Move | null;
+}
+
+// Everything that decides which cells neighbour which
+export type BoardShape = Pick<GameState, "size" | "variant">;
+
+export interface Explosion extends Position {
+  // Cells that received one of the exploding cell's atoms
+  targets: Position[];
+}
+
+export interface Capture extends Position {
+  previousOwner: number;
+}
+
+// All cells at critical mass explode together in one wave; their atoms can
+// push neighbours over critical mass, which explode in the next wave
+export interface ExplosionWave {
+  explosions: Explosion[];
+  captures: Capture[];
+  // Board once every explosion in the wave has landed
+  board: Board;
+}
+
+// Emitted by applyMove in the order they happened
+export type GameEvent =
+  | { type: "place"; row: number; col: number; player: number }
+  | { type: "wave"; index: number; wave: ExplosionWave }
+  | { type: "eliminate"; player: number }
+  | { type: "win"; player: number };
+
+export type MoveError =
+  | "game_over"
+  | "not_your_turn"
+  | "out_of_bounds"
+  | "wall"
+  | "cell_owned_by_opponent";
+
+export interface MoveResult {
+  state: GameState;
+  events: GameEvent[];
+}
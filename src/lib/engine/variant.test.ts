@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { getAdjacentCells, getCriticalMass } from "./board.ts";
+import { applyMove, createGameState, getLegalMoves } from "./moves.ts";
+import { decodePosition, encodePosition } from "./notation.ts";
+import {
+  createVariant,
+  getVariantError,
+  VARIANT_PRESETS,
+  type VariantPreset,
+} from "./variant.ts";
+
+const size = { rows: 5, cols: 6 };
+
+function getMasses(preset: VariantPreset) {
+  const shape = { size, variant: createVariant(preset, size) };
+  return Array.from({ length: size.rows }, (_, row) =>
+    Array.from({ length: size.cols }, (_, col) =>
+      getCriticalMass(shape, row, col)
+    ).join("")
+  );
+}
+
+describe("critical mass under each variant", () => {
+  it("is 4 everywhere on a torus", () => {
+    expect(getMasses("torus")).toEqual(Array(5).fill("444444"));
+  });
+
+  it("counts the diagonals with eight neighbours", () => {
+    expect(getMasses("eight")).toEqual([
+      "355553",
+      "588885",
+      "588885",
+      "588885",
+      "355553",
+    ]);
+  });
+
+  it("leaves walls out of their neighbours' counts", () => {
+    const shape = { size, variant: createVariant("walls", size) };
+    expect(getCriticalMass(shape, 0, 2)).toBe(2);
+    expect(getAdjacentCells(shape, 0, 2)).toEqual([
+      { row: 0, col: 1 },
+      { row: 0, col: 3 },
+    ]);
+  });
+});
+
+describe("getVariantError", () => {
+  it("accepts every preset on every board size", () => {
+    for (const rows of [3, 4, 7, 20]) {
+      for (const cols of [3, 5, 20]) {
+        for (const preset of VARIANT_PRESETS) {
+          const boardSize = { rows, cols };
+          expect(
+            getVariantError(boardSize, createVariant(preset, boardSize))
+          ).toBeNull();
+        }
+      }
+    }
+  });
+
+  it("rejects walls that cut the board in two", () => {
+    // Two corner cells left touching only each other would pass their atoms
+    // back and forth forever
+    expect(
+      getVariantError(
+        { rows: 3, cols: 3 },
+        {
+          wrap: false,
+          neighbours: 4,
+          walls: [
+            { row: 0, col: 2 },
+            { row: 1, col: 0 },
+            { row: 1, col: 1 },
+            { row: 1, col: 2 },
+          ],
+        }
+      )
+    ).toBe("walls cut the board in two");
+    expect(() => decodePosition("3x3 1a.#/###/... b 2 a - 1 walls")).toThrow(
+      "walls cut the board in two"
+    );
+  });
+
+  it("rejects walls listed twice or off the board", () => {
+    const board = { rows: 3, cols: 3 };
+    const wall = { row: 1, col: 1 };
+    expect(
+      getVariantError(board, {
+        wrap: false,
+        neighbours: 4,
+        walls: [wall, wall],
+      })
+    ).toBe("a wall is listed twice");
+    expect(
+      getVariantError(board, {
+        wrap: false,
+        neighbours: 4,
+        walls: [{ row: 3, col: 0 }],
+      })
+    ).toBe("invalid walls");
+  });
+});
+
+describe("playing a variant", () => {
+  it("never offers a wall as a move", () => {
+    const state = createGameState(size, 2, 0, createVariant("walls", size));
+    expect(getLegalMoves(state)).toHaveLength(size.rows * size.cols - 4);
+  });
+
+  it("explodes across the edge of a torus", () => {
+    const before = decodePosition("3x3 3a../.../..1b a 2 ab - 2 torus");
+    const { state } = applyMove(before, { row: 0, col: 0, player: 0 });
+
+    for (const [row, col] of [
+      [2, 0],
+      [1, 0],
+      [0, 2],
+      [0, 1],
+    ]) {
+      expect(state.board[row][col]).toEqual({ count: 1, player: 0 });
+    }
+  });
+
+  it("keeps the variant when a position is copied", () => {
+    const variant = createVariant("walls", size);
+    const state = applyMove(createGameState(size, 2, 0, variant), {
+      row: 0,
+      col: 0,
+      player: 0,
+    }).state;
+
+    const copied = decodePosition(encodePosition(state));
+    expect(copied.variant).toEqual(variant);
+    expect(copied.board).toEqual(state.board);
+  });
+});
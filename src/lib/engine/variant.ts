@@ -0,0 +1,178 @@
+import { getAdjacentCells, isInBounds, isWall } from "./board.ts";
+import type { BoardShape, BoardSize, Variant } from "./types.ts";
+
+// Rule variants a room can be played under. Every variant is a combination of
+// the same three switches, so the engine only ever asks a state's variant
+// which cells touch; the presets are what players pick from.
+
+export const STANDARD_VARIANT: Variant = {
+  wrap: false,
+  neighbours: 4,
+  walls: [],
+};
+
+export const VARIANT_PRESETS = ["standard", "torus", "walls", "eight"] as const;
+
+export type VariantPreset = (typeof VARIANT_PRESETS)[number];
+
+// How each rule that departs from the standard game is written
+const RULES = ["torus", "eight", "walls"];
+
+export const VARIANT_LABELS: Record<VariantPreset, string> = {
+  standard: "Standard",
+  torus: "Torus (edges wrap around)",
+  walls: "Walls",
+  eight: "Eight neighbours",
+};
+
+// Four walls, one in from each corner by a third of the board; on the
+// smallest boards they meet in the middle
+function getPresetWalls({ rows, cols }: BoardSize) {
+  const rowsIn = [Math.floor(rows / 3), rows - 1 - Math.floor(rows / 3)];
+  const colsIn = [Math.floor(cols / 3), cols - 1 - Math.floor(cols / 3)];
+  const walls: Variant["walls"] = [];
+  for (const row of new Set(rowsIn)) {
+    for (const col of new Set(colsIn)) walls.push({ row, col });
+  }
+  return walls;
+}
+
+export function createVariant(preset: VariantPreset, size: BoardSize): Variant {
+  switch (preset) {
+    case "standard":
+      return { ...STANDARD_VARIANT, walls: [] };
+    case "torus":
+      return { ...STANDARD_VARIANT, wrap: true, walls: [] };
+    case "walls":
+      return { ...STANDARD_VARIANT, walls: getPresetWalls(size) };
+    case "eight":
+      return { ...STANDARD_VARIANT, neighbours: 8, walls: [] };
+  }
+}
+
+function isSameWalls(a: Variant, b: Variant) {
+  return (
+    a.walls.length === b.walls.length &&
+    a.walls.every((wall) => isWall(b, wall.row, wall.col))
+  );
+}
+
+export function isSameVariant(a: Variant, b: Variant) {
+  return (
+    a.wrap === b.wrap && a.neighbours === b.neighbours && isSameWalls(a, b)
+  );
+}
+
+// How many open cells can be reached from the first one
+function countReachable(shape: BoardShape) {
+  const { size, variant } = shape;
+  const cells = Array.from({ length: size.rows * size.cols }, (_, i) => ({
+    row: Math.floor(i / size.cols),
+    col: i % size.cols,
+  }));
+  const start = cells.find((cell) => !isWall(variant, cell.row, cell.col))!;
+  const seen = new Set([`${start.row},${start.col}`]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const cell = queue.pop()!;
+    for (const next of getAdjacentCells(shape, cell.row, cell.col)) {
+      const key = `${next.row},${next.col}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        queue.push(next);
+      }
+    }
+  }
+
+  return seen.size;
+}
+
+// What's wrong with playing `variant` on a board of `size`, or null if
+// nothing is. The open cells must all be connected: a region walled off from
+// the rest can fill up and explode round in circles forever without touching
+// anyone else's atoms, and a lone cell could never explode at all.
+export function getVariantError(
+  size: BoardSize,
+  variant: Variant
+): string | null {
+  if (typeof variant !== "object" || variant === null) return "no variant";
+  if (typeof variant.wrap !== "boolean") return "invalid wrap flag";
+  if (variant.neighbours !== 4 && variant.neighbours !== 8) {
+    return "invalid neighbour count";
+  }
+  if (
+    !Array.isArray(variant.walls) ||
+    !variant.walls.every(
+      (wall) =>
+        typeof wall === "object" &&
+        wall !== null &&
+        isInBounds(size, wall.row, wall.col)
+    )
+  ) {
+    return "invalid walls";
+  }
+  if (
+    variant.walls.some(
+      (wall, i) =>
+        variant.walls.findIndex(
+          (other) => other.row === wall.row && other.col === wall.col
+        ) !== i
+    )
+  ) {
+    return "a wall is listed twice";
+  }
+
+  const open = size.rows * size.cols - variant.walls.length;
+  if (open < 2) return "too few open cells";
+  if (countReachable({ size, variant }) < open) {
+    return "walls cut the board in two";
+  }
+
+  return null;
+}
+
+export function isValidVariant(size: BoardSize, variant: Variant) {
+  return getVariantError(size, variant) === null;
+}
+
+// The variant's rules as text: "standard", or what differs from it joined
+// with "+", e.g. "torus+eight". Where the walls are is written separately.
+export function formatVariant(variant: Variant) {
+  const rules = [
+    variant.wrap && "torus",
+    variant.neighbours === 8 && "eight",
+    variant.walls.length > 0 && "walls",
+  ].filter(Boolean);
+  return rules.length > 0 ? rules.join("+") : "standard";
+}
+
+// Reads text written by formatVariant, given where the walls are; null when
+// the two disagree or the text names rules that don't exist
+export function parseVariant(
+  text: string,
+  walls: Variant["walls"]
+): Variant | null {
+  const rules = text === "standard" ? [] : text.split("+");
+  if (
+    rules.some((rule) => !RULES.includes(rule)) ||
+    new Set(rules).size !== rules.length ||
+    rules.includes("walls") !== walls.length > 0
+  ) {
+    return null;
+  }
+
+  return {
+    wrap: rules.includes("torus"),
+    neighbours: rules.includes("eight") ? 8 : 4,
+    walls,
+  };
+}
+
+// How to describe a variant to players; the rules share the presets' names
+export function getVariantLabel(variant: Variant) {
+  return formatVariant(variant)
+    .split("+")
+    .map((rule) => VARIANT_LABELS[rule as VariantPreset])
+    .join(", ");
+}
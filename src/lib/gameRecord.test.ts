@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { createGameState } from "./engine";
+import { readGameRecord, writeGameRecord } from "./gameRecord";
+import {
+  validateDrawResponse,
+  validateMove,
+  validateResignation,
+  type ValidatedMove,
+} from "./moveValidator";
+import { getRematchUpdate } from "./backend/rooms";
+import type { GameRoom, MoveRecord } from "./types";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+function createRoom(): GameRoom {
+  return {
+    id: "00000000-0000-4000-8000-000000000000",
+    created_at: new Date(NOW).toISOString(),
+    player1_id: "alice",
+    seats: [
+      {
+        seat: 0,
+        user_id: "alice",
+        bot: null,
+        color: "#FF5252",
+        eliminated: false,
+      },
+      {
+        seat: 1,
+        user_id: "bob",
+        bot: null,
+        color: "#4CAF50",
+        eliminated: false,
+      },
+    ],
+    capacity: 2,
+    is_public: false,
+    host_name: "Alice",
+    current_state: createGameState({ rows: 3, cols: 3 }),
+    game_over: false,
+    winner: null,
+    status: "playing",
+    result_reason: null,
+    abandon_grace_seconds: 60,
+    game_number: 1,
+    series_wins: [0, 0],
+    rematch_votes: [],
+    draw_offers: [],
+    takeback_votes: [],
+    time_control: null,
+    clocks: null,
+    turn_started_at: null,
+    turn_deadline: null,
+    version: 1,
+  };
+}
+
+// Applies a judged turn the way the backends do, keeping its history rows
+function apply(room: GameRoom, history: MoveRecord[], turn: ValidatedMove) {
+  Object.assign(room, turn.update);
+  history.push(
+    ...turn.records.map((record) => ({
+      ...record,
+      id: crypto.randomUUID(),
+      created_at: new Date(NOW).toISOString(),
+    }))
+  );
+}
+
+// Plays cells in turn; the last one knocks the second player to move out
+function playWin(room: GameRoom, history: MoveRecord[], users: string[]) {
+  const [first, second] = users;
+  for (const [user, row, col] of [
+    [first, 0, 0],
+    [second, 0, 1],
+    [first, 0, 0],
+  ] as const) {
+    apply(room, history, validateMove(room, user, row, col, NOW));
+  }
+}
+
+describe("game records", () => {
+  it("read back to the game that was written", () => {
+    const room = createRoom();
+    const history: MoveRecord[] = [];
+    playWin(room, history, ["alice", "bob"]);
+
+    const record = readGameRecord(
+      writeGameRecord(room, history, ["Alice", "Bob"])
+    );
+
+    expect(record.tags.Result).toBe("1");
+    expect(record.tags.Termination).toBe("elimination");
+    expect(record.players.map((player) => player.name)).toEqual([
+      "Alice",
+      "Bob",
+    ]);
+    expect(record.turns).toHaveLength(3);
+    expect(record.states.at(-1)).toEqual(room.current_state);
+  });
+
+  it("keep how a forfeit ended the game", () => {
+    const room = createRoom();
+    const history: MoveRecord[] = [];
+    apply(room, history, validateMove(room, "alice", 1, 1, NOW));
+    apply(room, history, validateResignation(room, "bob", NOW));
+
+    const record = readGameRecord(writeGameRecord(room, history, []));
+
+    expect(record.tags.Termination).toBe("resignation");
+    expect(record.states.at(-1)).toEqual(room.current_state);
+  });
+
+  it("end an agreed draw with the turn that settled it", () => {
+    const room = createRoom();
+    const history: MoveRecord[] = [];
+    apply(room, history, validateMove(room, "alice", 1, 1, NOW));
+    apply(room, history, validateDrawResponse(room, "bob", true, NOW));
+    apply(room, history, validateDrawResponse(room, "alice", true, NOW));
+
+    const record = readGameRecord(writeGameRecord(room, history, []));
+
+    expect(record.tags.Result).toBe("draw");
+    expect(record.turns).toEqual([
+      { row: 1, col: 1, player: 0 },
+      { player: 0, draw: true },
+    ]);
+    expect(record.states.at(-1)).toEqual(room.current_state);
+  });
+
+  it("write only the room's current game, from whoever opened it", () => {
+    const room = createRoom();
+    const history: MoveRecord[] = [];
+    playWin(room, history, ["alice", "bob"]);
+    Object.assign(room, getRematchUpdate(room, NOW));
+    playWin(room, history, ["bob", "alice"]);
+
+    const record = readGameRecord(writeGameRecord(room, history, []));
+
+    expect(record.tags.Game).toBe("2");
+    expect(record.tags.First).toBe("2");
+    expect(record.tags.Result).toBe("2");
+    expect(record.turns).toHaveLength(3);
+    expect(record.states.at(-1)).toEqual(room.current_state);
+  });
+
+  it("treat a room from before game numbers as on its first game", () => {
+    const room = createRoom();
+    const history: MoveRecord[] = [];
+    playWin(room, history, ["alice", "bob"]);
+    const legacyRoom = { ...room, game_number: undefined };
+
+    const record = readGameRecord(
+      writeGameRecord(legacyRoom as unknown as GameRoom, history, [])
+    );
+
+    expect(record.tags.Game).toBe("1");
+    expect(record.turns).toHaveLength(3);
+    expect(record.states.at(-1)).toEqual(room.current_state);
+  });
+});
@@ -0,0 +1,293 @@
+import {
+  createGameState,
+  drawGame,
+  formatVariant,
+  forfeitPlayer,
+  getFirstPlayer,
+  getMoveError,
+  isValidBoardSize,
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+  RESULT_REASONS,
+  applyMove,
+  getVariantError,
+  parseVariant,
+  type Draw,
+  type Forfeit,
+  type GameState,
+  type Move,
+  type Position,
+} from "./engine";
+import { getRecordedTurn } from "./moveValidator";
+import { PLAYERS, type PlayerInfo } from "./players";
+import type { GameRoom, MoveRecord, ResultReason } from "./types";
+
+// Whole games as text, modelled on chess's PGN: a header of [Tag "value"]
+// lines, a blank line, then the numbered turns, e.g.
+//
+//   [Event "Chain Reaction"]
+//   [Date "2026.10.19"]
+//   [Size "6x6"]
+//   [Variant "standard"]
+//   [First "1"]
+//   [Seat1 "Alice"]
+//   [Seat1Color "#FF5252"]
+//   [Seat2 "Medium bot"]
+//   [Seat2Color "#4CAF50"]
+//   [Result "1"]
+//   [Termination "elimination"]
+//
+//   1. a1 2. f6 3. a1 4. x2
+//
+// Cells are a column letter and a row number counted from the top left, so
+// "a1" is the top left corner; "xN" is seat N dropping out instead of
+// moving, and "=N" seat N completing an agreed draw. Result is the winning
+// seat, "draw", or "*" for a game still on.
+// Variants other than the standard game name their rules as positions do,
+// e.g. [Variant "torus+walls"], and list their walls: [Walls "b2 e5"].
+
+export const GAME_RECORD_EXTENSION = ".crg";
+
+const COLUMN_LETTERS = "abcdefghijklmnopqrstuvwxyz";
+
+export interface GameRecord {
+  // Every header tag, in the order written
+  tags: Record<string, string>;
+  players: PlayerInfo[];
+  turns: Array<Move | Forfeit | Draw>;
+  // The state before any turn, then after each one
+  states: GameState[];
+}
+
+function formatCell({ row, col }: Position) {
+  return `${COLUMN_LETTERS[col]}${row + 1}`;
+}
+
+function formatTurn(turn: Move | Forfeit | Draw) {
+  if ("draw" in turn) return `=${turn.player + 1}`;
+  if ("forfeit" in turn) return `x${turn.player + 1}`;
+  return formatCell(turn);
+}
+
+function readCell(token: string): Position | null {
+  const cell = /^([a-z])(\d+)$/.exec(token);
+  return cell
+    ? { row: Number(cell[2]) - 1, col: COLUMN_LETTERS.indexOf(cell[1]) }
+    : null;
+}
+
+function formatDate(timestamp: string) {
+  return timestamp.slice(0, 10).replace(/-/g, ".");
+}
+
+function quote(value: string) {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// The room's finished game as a record. `moves` is the room's history, of
+// which only the game now in the room is written; seats without a name in
+// `names` are written as "Player N".
+export function writeGameRecord(
+  room: GameRoom,
+  moves: MoveRecord[],
+  names: Array<string | undefined>
+) {
+  const gameNumber = room.game_number ?? 1;
+  const turns = moves
+    .filter((move) => (move.game_number ?? 1) === gameNumber)
+    .sort((a, b) => a.room_version - b.room_version);
+  const state = room.current_state;
+  const finishedAt = turns.at(-1)?.created_at ?? room.created_at;
+
+  const tags: Array<[string, string]> = [
+    ["Event", "Chain Reaction"],
+    ["Date", formatDate(finishedAt)],
+    ["Room", room.id],
+    ["Game", String(gameNumber)],
+    ["Size", `${state.size.rows}x${state.size.cols}`],
+    ["Variant", formatVariant(state.variant)],
+    ...(state.variant.walls.length > 0
+      ? [
+          ["Walls", state.variant.walls.map(formatCell).join(" ")] as [
+            string,
+            string,
+          ],
+        ]
+      : []),
+    ["First", String(getFirstPlayer(gameNumber, state.playerCount) + 1)],
+    ...room.seats.flatMap((seat): Array<[string, string]> => [
+      [`Seat${seat.seat + 1}`, names[seat.seat] ?? `Player ${seat.seat + 1}`],
+      [`Seat${seat.seat + 1}Color`, seat.color],
+    ]),
+    [
+      "Result",
+      !state.gameOver
+        ? "*"
+        : state.winner === null
+          ? "draw"
+          : String(state.winner + 1),
+    ],
+  ];
+  if (state.resultReason) tags.push(["Termination", state.resultReason]);
+
+  const movetext = turns
+    .map((move) => `${move.move_number}. ${formatTurn(getRecordedTurn(move))}`)
+    .join(" ");
+
+  return [
+    ...tags.map(([name, value]) => `[${name} ${quote(value)}]`),
+    "",
+    movetext,
+    "",
+  ].join("\n");
+}
+
+function invalid(reason: string): never {
+  throw new Error(`Invalid game record: ${reason}`);
+}
+
+function readTags(header: string[]) {
+  const tags: Record<string, string> = {};
+  for (const line of header) {
+    const match = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/.exec(line);
+    if (!match) invalid(`unreadable header line ${line}`);
+    tags[match[1]] = match[2].replace(/\\(.)/g, "$1");
+  }
+  return tags;
+}
+
+function readSeat(value: string, playerCount: number) {
+  const seat = Number(value) - 1;
+  if (!Number.isInteger(seat) || seat < 0 || seat >= playerCount) {
+    invalid(`no seat ${value}`);
+  }
+  return seat;
+}
+
+// Reads the turns, checking each against the rules as it goes
+function playTurns(
+  initial: GameState,
+  movetext: string
+): Pick<GameRecord, "turns" | "states"> {
+  const tokens = movetext.split(/\s+/).filter(Boolean);
+  const turns: Array<Move | Forfeit | Draw> = [];
+  const states = [initial];
+
+  for (let i = 0; i < tokens.length; i += 2) {
+    const state = states[states.length - 1];
+    const number = turns.length + 1;
+    if (tokens[i] !== `${number}.` || i + 1 >= tokens.length) {
+      invalid(`expected turn ${number} at "${tokens[i]}"`);
+    }
+
+    const token = tokens[i + 1];
+    const forfeit = /^x(\d+)$/.exec(token);
+    const draw = /^=(\d+)$/.exec(token);
+    const cell = readCell(token);
+    if (draw) {
+      const turn: Draw = {
+        player: readSeat(draw[1], state.playerCount),
+        draw: true,
+      };
+      if (state.gameOver || state.eliminated.includes(turn.player)) {
+        invalid(`turn ${number}: seat ${draw[1]} is not in the game`);
+      }
+      turns.push(turn);
+      states.push(drawGame(state));
+    } else if (forfeit) {
+      const turn: Forfeit = {
+        player: readSeat(forfeit[1], state.playerCount),
+        forfeit: true,
+      };
+      if (state.gameOver || state.eliminated.includes(turn.player)) {
+        invalid(`turn ${number}: seat ${forfeit[1]} is not in the game`);
+      }
+      turns.push(turn);
+      states.push(forfeitPlayer(state, turn.player).state);
+    } else if (cell) {
+      const move: Move = { ...cell, player: state.currentPlayer };
+      const error = getMoveError(state, move);
+      if (error) invalid(`turn ${number} (${token}) is illegal: ${error}`);
+      turns.push(move);
+      states.push(applyMove(state, move).state);
+    } else {
+      invalid(`turn ${number}: unreadable "${token}"`);
+    }
+  }
+
+  return { turns, states };
+}
+
+// Reads a record written by writeGameRecord, replaying every turn under the
+// rules; throws on anything malformed or illegal
+export function readGameRecord(text: string): GameRecord {
+  const lines = text.replace(/\r\n/g, "\n").trim().split("\n");
+  const blank = lines.findIndex((line) => line.trim() === "");
+  const header = (blank === -1 ? lines : lines.slice(0, blank)).map((line) =>
+    line.trim()
+  );
+  const tags = readTags(header.filter(Boolean));
+  const movetext = blank === -1 ? "" : lines.slice(blank + 1).join(" ");
+
+  const size = /^(\d+)x(\d+)$/.exec(tags.Size ?? "");
+  const boardSize = size && { rows: Number(size[1]), cols: Number(size[2]) };
+  if (!boardSize || !isValidBoardSize(boardSize)) {
+    invalid(`unsupported board size "${tags.Size}"`);
+  }
+
+  const walls = (tags.Walls ?? "").split(/\s+/).filter(Boolean).map(readCell);
+  if (walls.includes(null)) invalid(`unreadable walls "${tags.Walls}"`);
+  const variant = parseVariant(tags.Variant ?? "standard", walls as Position[]);
+  if (!variant) invalid(`unsupported variant "${tags.Variant}"`);
+  const variantError = getVariantError(boardSize, variant);
+  if (variantError) invalid(variantError);
+
+  let playerCount = 0;
+  while (`Seat${playerCount + 1}` in tags) playerCount++;
+  if (playerCount < MIN_PLAYERS || playerCount > MAX_PLAYERS) {
+    invalid(`expected ${MIN_PLAYERS} to ${MAX_PLAYERS} seats`);
+  }
+  const players = Array.from({ length: playerCount }, (_, seat) => ({
+    id: seat,
+    name: tags[`Seat${seat + 1}`],
+    color: tags[`Seat${seat + 1}Color`] ?? PLAYERS[seat].color,
+  }));
+
+  const first = readSeat(tags.First ?? "1", playerCount);
+  const { turns, states } = playTurns(
+    createGameState(boardSize, playerCount, first, variant),
+    movetext
+  );
+
+  // The result has to be the one the turns lead to
+  const final = states[states.length - 1];
+  const result = tags.Result ?? "*";
+  const reason = tags.Termination as ResultReason | undefined;
+  if (reason !== undefined && !RESULT_REASONS.includes(reason)) {
+    invalid(`unknown termination "${reason}"`);
+  }
+
+  if (result === "draw") {
+    // Records from before draws were turns leave the draw off the movetext
+    if (final.resultReason !== "draw") {
+      if (final.gameOver) invalid("the turns end the game, but it's a draw");
+      states[states.length - 1] = drawGame(final);
+    }
+  } else if (result === "*") {
+    if (final.gameOver) invalid("the turns end the game, but it's unfinished");
+  } else {
+    const winner = readSeat(result, playerCount);
+    if (final.winner !== winner) {
+      invalid(`the turns don't end with seat ${result} winning`);
+    }
+    if (reason === "draw") invalid("a game with a winner wasn't drawn");
+    if (reason) states[states.length - 1] = { ...final, resultReason: reason };
+  }
+
+  return { tags, players, turns, states };
+}
+
+// A file name for a room's current game
+export function getGameRecordFileName(room: GameRoom) {
+  return `chain-reaction-${room.id.slice(0, 8)}-game-${room.game_number ?? 1}${GAME_RECORD_EXTENSION}`;
+}
@@ -0,0 +1,114 @@
+import {
+  decodePosition,
+  encodePosition,
+  parseGameState,
+  replayMoves,
+  type GameState,
+  type Move,
+} from "./engine";
+import type { BotLevel } from "./bots";
+
+export interface SavedLocalGame {
+  state: GameState;
+  // Bot level per seat, null for seats played by people at the device
+  bots: Array<BotLevel | null>;
+  // The state before each move so far, oldest first; missing from games
+  // saved before undo existed
+  history?: GameState[];
+}
+
+// What goes into local storage: the states are rebuilt from the moves on
+// load, since a snapshot per move soon outgrows the browser's quota
+interface StoredLocalGame {
+  // Position notation for where the game started
+  start: string;
+  moves: Move[];
+  bots: Array<BotLevel | null>;
+}
+
+// Hot-seat games live only in this browser, so a reload can pick them up
+const LOCAL_GAME_KEY = "chain-reaction:local-game";
+
+export function loadLocalGame(): SavedLocalGame | null {
+  const stored = localStorage.getItem(LOCAL_GAME_KEY);
+  if (!stored) return null;
+
+  try {
+    const game = JSON.parse(stored) as StoredLocalGame | SavedLocalGame;
+    if (!Array.isArray(game.bots)) {
+      throw new Error("Unrecognised local game format");
+    }
+    if ("moves" in game) {
+      // Replaying checks every move, so a tampered one throws here
+      const states = replayMoves(decodePosition(game.start), game.moves);
+      return {
+        state: states[states.length - 1],
+        bots: game.bots,
+        history: states.slice(0, -1),
+      };
+    }
+
+    // Saved by an older version of the game, or tampered with
+    const state = parseGameState(game.state);
+    const history = game.history?.map(parseGameState);
+    if (!state || history?.includes(null)) {
+      throw new Error("Unrecognised local game format");
+    }
+    return { ...game, state, history: history as GameState[] | undefined };
+  } catch (error) {
+    console.error("Discarding saved local game:", error);
+    clearLocalGame();
+    return null;
+  }
+}
+
+// The game after one more move
+export function addLocalMove(
+  game: SavedLocalGame,
+  state: GameState
+): SavedLocalGame {
+  return { ...game, state, history: [...(game.history ?? []), game.state] };
+}
+
+// Steps back to the last position a person was to move in, skipping over
+// bots' replies, or returns null when there is nothing to undo
+export function undoLocalMove(game: SavedLocalGame): SavedLocalGame | null {
+  const history = game.history ?? [];
+  for (let index = history.length - 1; index >= 0; index--) {
+    if (game.bots[history[index].currentPlayer] === null) {
+      return {
+        ...game,
+        state: history[index],
+        history: history.slice(0, index),
+      };
+    }
+  }
+  return null;
+}
+
+export function saveLocalGame(game: SavedLocalGame) {
+  const history = game.history ?? [];
+  const states = [...history, game.state];
+  const stored: StoredLocalGame = {
+    start: encodePosition(states[0]),
+    // Local games have no forfeits, so every state after the first was
+    // reached by a move
+    moves: states.slice(1).map((state) => state.lastMove!),
+    bots: game.bots,
+  };
+
+  try {
+    localStorage.setItem(LOCAL_GAME_KEY, JSON.stringify(stored));
+  } catch (error) {
+    // A full store costs the save, not the game in progress
+    console.error("Failed to save local game:", error);
+  }
+}
+
+export function clearLocalGame() {
+  localStorage.removeItem(LOCAL_GAME_KEY);
+}
+
+export function hasLocalGame() {
+  return localStorage.getItem(LOCAL_GAME_KEY) !== null;
+}
@@ -0,0 +1,522 @@
+import {
+  applyMove,
+  createGameState,
+  drawGame,
+  forfeitPlayer,
+  getChainLength,
+  getFirstPlayer,
+  getLegalMoves,
+  getMoveError,
+  hashBoard,
+  replayMoves,
+  type Draw,
+  type Forfeit,
+  type GameState,
+  type Move,
+  type MoveError,
+} from "./engine/index.ts";
+import { advanceClock, hasTimedOut } from "./timeControl.ts";
+import { getAbandonGraceMs, getSeatOwner } from "./abandonment.ts";
+import type { GameRoom, MoveRecord } from "./types.ts";
+
+export type MoveRejection =
+  | MoveError
+  | "not_authenticated"
+  | "room_not_found"
+  | "not_a_player"
+  | "game_not_started"
+  | "time_expired"
+  | "not_timed_out"
+  | "opponents_connected"
+  | "no_draw_offer"
+  | "bots_cannot_draw"
+  | "no_takeback"
+  | "no_takeback_request"
+  | "history_unavailable"
+  | "not_allowed"
+  | "conflict";
+
+const REJECTION_MESSAGES: Record<MoveRejection, string> = {
+  game_over: "The game is already over",
+  not_your_turn: "It's not your turn",
+  out_of_bounds: "That cell is not on the board",
+  wall: "Nothing can be placed on a wall",
+  cell_owned_by_opponent: "You can't place atoms on your opponent's cell",
+  not_authenticated: "You need to sign in to play",
+  room_not_found: "Game room does not exist",
+  not_a_player: "You are not a player in this room",
+  game_not_started: "The game hasn't started yet",
+  time_expired: "Time ran out before your move arrived",
+  not_timed_out: "The player to move still has time left",
+  opponents_connected: "Your opponents haven't been gone long enough",
+  no_draw_offer: "Nobody has offered a draw",
+  bots_cannot_draw: "Computer players never agree to a draw",
+  no_takeback: "You have no move to take back",
+  no_takeback_request: "Nobody has asked to take a move back",
+  history_unavailable: "That move can't be taken back",
+  not_allowed: "That can't be done in this room right now",
+  conflict: "The game changed while your move was sent, please try again",
+};
+
+// What to tell a player whose turn was refused
+export function getRejectionMessage(code: MoveRejection) {
+  return REJECTION_MESSAGES[code] ?? "Move rejected";
+}
+
+export class MoveRejectedError extends Error {
+  readonly code: MoveRejection;
+
+  constructor(code: MoveRejection) {
+    super(getRejectionMessage(code));
+    this.name = "MoveRejectedError";
+    this.code = code;
+  }
+}
+
+export function isMoveRejection(value: unknown): value is MoveRejection {
+  return typeof value === "string" && value in REJECTION_MESSAGES;
+}
+
+export type RoomUpdate = Pick<
+  GameRoom,
+  | "current_state"
+  | "seats"
+  | "game_over"
+  | "winner"
+  | "status"
+  | "result_reason"
+  | "series_wins"
+  | "draw_offers"
+  | "takeback_votes"
+  | "version"
+  | "clocks"
+  | "turn_started_at"
+  | "turn_deadline"
+>;
+
+export type NewMoveRecord = Omit<MoveRecord, "id" | "created_at">;
+
+export interface ValidatedMove {
+  update: RoomUpdate;
+  // One per turn taken, in order
+  records: NewMoveRecord[];
+  // History rows to drop, by room_version, for turns taken back
+  removedVersions?: number[];
+}
+
+// A seat moving, forfeiting or settling a draw, and the state that left the
+// game in
+interface Turn {
+  player: number;
+  state: GameState;
+  move: Move | Forfeit | Draw;
+  // Cells the move exploded, 0 for a forfeit
+  chain: number;
+}
+
+// Maps a user to their seat in the room, or null for outsiders
+export function getPlayerNumber(
+  room: Pick<GameRoom, "seats">,
+  userId: string
+): number | null {
+  return room.seats.find((seat) => seat.user_id === userId)?.seat ?? null;
+}
+
+// Who `userId` is moving for right now: their own seat, or a bot's seat
+// when it's the bot's turn and they are the host
+export function getActingPlayer(room: GameRoom, userId: string) {
+  const seat = room.seats[room.current_state.currentPlayer];
+  if (seat?.bot && room.player1_id === userId) return seat.seat;
+  return getPlayerNumber(room, userId);
+}
+
+// The room's series score with one more win for `winner`
+function addSeriesWin(room: GameRoom, winner: number) {
+  const wins = room.seats.map((seat) => room.series_wins?.[seat.seat] ?? 0);
+  wins[winner]++;
+  return wins;
+}
+
+// The turn a history row records, for replaying it
+export function getRecordedTurn(record: MoveRecord): Move | Forfeit | Draw {
+  if (record.draw) return { player: record.player, draw: true };
+  if (record.forfeit) {
+    return {
+      player: record.player,
+      forfeit: true,
+      ...(record.forfeit_reason && { reason: record.forfeit_reason }),
+    };
+  }
+  return { row: record.row!, col: record.col!, player: record.player };
+}
+
+// Whether the game's recorded turns, oldest first, replayed from the start
+// end in `state`. Only the turn functions write rooms, but a rating is only
+// ever moved by a game that was played out turn by turn.
+export function isPlayedOut(
+  room: GameRoom,
+  moves: MoveRecord[],
+  state: GameState
+) {
+  const { size, playerCount, variant } = state;
+  try {
+    const final = replayMoves(
+      createGameState(
+        size,
+        playerCount,
+        getFirstPlayer(room.game_number ?? 1, playerCount),
+        variant
+      ),
+      moves.map(getRecordedTurn)
+    ).at(-1)!;
+    return (
+      hashBoard(final.board) === hashBoard(state.board) &&
+      final.gameOver === state.gameOver &&
+      final.winner === state.winner
+    );
+  } catch {
+    return false;
+  }
+}
+
+// The room once `player`'s turn has left it in `state`, or null when the
+// game changed some other way. Draw offers and takeback requests lapse with
+// the position they were made in.
+function buildUpdate(
+  room: GameRoom,
+  player: number | null,
+  state: GameState,
+  version: number,
+  now: number
+): RoomUpdate {
+  return {
+    current_state: state,
+    seats: room.seats.map((seat) => ({
+      ...seat,
+      eliminated: state.eliminated.includes(seat.seat),
+    })),
+    game_over: state.gameOver,
+    winner: state.winner,
+    status: state.gameOver ? "finished" : "playing",
+    result_reason: state.resultReason,
+    series_wins:
+      state.winner !== null
+        ? addSeriesWin(room, state.winner)
+        : room.series_wins,
+    draw_offers: [],
+    takeback_votes: [],
+    version,
+    ...advanceClock(room, player, state, now),
+  };
+}
+
+// The room and history writes for a run of turns, each following on from
+// the one before
+function buildTurns(room: GameRoom, turns: Turn[], now: number): ValidatedMove {
+  const { player, state, move } = turns[turns.length - 1];
+  // Agreeing to a draw takes no time off anyone's clock
+  const mover = "draw" in move ? null : player;
+
+  return {
+    update: buildUpdate(room, mover, state, room.version + turns.length, now),
+    records: turns.map(({ player, state, move, chain }, i) => {
+      const isForfeit = "forfeit" in move;
+      const isCell = "row" in move;
+      return {
+        room_id: room.id,
+        game_number: room.game_number ?? 1,
+        move_number: state.moveNumber,
+        room_version: room.version + i + 1,
+        player,
+        forfeit: isForfeit,
+        forfeit_reason: isForfeit ? (move.reason ?? null) : null,
+        draw: "draw" in move,
+        row: isCell ? move.row : null,
+        col: isCell ? move.col : null,
+        chain_length: chain,
+        board_hash: hashBoard(state.board),
+      };
+    }),
+  };
+}
+
+export function validateMove(
+  room: GameRoom,
+  userId: string,
+  row: number,
+  col: number,
+  now = Date.now()
+): ValidatedMove {
+  const player = getActingPlayer(room, userId);
+  if (player === null) throw new MoveRejectedError("not_a_player");
+  if (room.status === "waiting") {
+    throw new MoveRejectedError("game_not_started");
+  }
+
+  const move = { row, col, player };
+  const error = getMoveError(room.current_state, move);
+  if (error) throw new MoveRejectedError(error);
+  if (hasTimedOut(room, now)) throw new MoveRejectedError("time_expired");
+
+  const { state, events } = applyMove(room.current_state, move);
+  const chain = getChainLength(events);
+  return buildTurns(room, [{ player, state, move, chain }], now);
+}
+
+// Settles a turn whose deadline has passed, as the room's time control says:
+// the seat to move either forfeits or plays a random legal move. Anyone
+// seated may ask, since it's the clock that decides.
+export function validateTimeout(
+  room: GameRoom,
+  userId: string,
+  now = Date.now(),
+  random: () => number = Math.random
+): ValidatedMove {
+  if (getPlayerNumber(room, userId) === null) {
+    throw new MoveRejectedError("not_a_player");
+  }
+  if (room.status === "waiting") {
+    throw new MoveRejectedError("game_not_started");
+  }
+  if (room.current_state.gameOver) throw new MoveRejectedError("game_over");
+  if (!room.time_control || !hasTimedOut(room, now)) {
+    throw new MoveRejectedError("not_timed_out");
+  }
+
+  const player = room.current_state.currentPlayer;
+  const moves = getLegalMoves(room.current_state);
+
+  if (room.time_control.onTimeout === "random_move" && moves.length > 0) {
+    const move = moves[Math.floor(random() * moves.length)];
+    const { state, events } = applyMove(room.current_state, move);
+    const chain = getChainLength(events);
+    return buildTurns(room, [{ player, state, move, chain }], now);
+  }
+
+  const move: Forfeit = { player, forfeit: true, reason: "timeout" };
+  const { state } = forfeitPlayer(room.current_state, player, move.reason);
+  return buildTurns(room, [{ player, state, move, chain: 0 }], now);
+}
+
+// Hands the game to `userId` once everyone else still in it has been gone
+// for the room's grace period, forfeiting their seats. lastSeen maps users to
+// their latest heartbeat; anyone without one counts from the room's creation.
+export function validateAbandonment(
+  room: GameRoom,
+  userId: string,
+  lastSeen: Record<string, string>,
+  now = Date.now()
+): ValidatedMove {
+  const claimer = getPlayerNumber(room, userId);
+  const { current_state: current } = room;
+  if (claimer === null || current.eliminated.includes(claimer)) {
+    throw new MoveRejectedError("not_a_player");
+  }
+  if (room.status === "waiting") {
+    throw new MoveRejectedError("game_not_started");
+  }
+  if (current.gameOver) throw new MoveRejectedError("game_over");
+
+  const graceMs = getAbandonGraceMs(room);
+  const opponents = room.seats.filter(
+    (seat) => seat.seat !== claimer && !current.eliminated.includes(seat.seat)
+  );
+  const isConnected = opponents.some((seat) => {
+    const owner = getSeatOwner(room, seat);
+    const seenAt = Date.parse(lastSeen[owner] ?? room.created_at);
+    return owner === userId || now - seenAt < graceMs;
+  });
+  if (isConnected) throw new MoveRejectedError("opponents_connected");
+
+  let state = current;
+  const turns = opponents.map(({ seat }) => {
+    const move: Forfeit = {
+      player: seat,
+      forfeit: true,
+      reason: "abandonment",
+    };
+    ({ state } = forfeitPlayer(state, seat, move.reason));
+    return { player: seat, state, move, chain: 0 };
+  });
+  return buildTurns(room, turns, now);
+}
+
+// Checks `userId` is still playing in a game under way, and returns their
+// seat
+function getPlayingSeat(room: GameRoom, userId: string) {
+  const player = getPlayerNumber(room, userId);
+  if (player === null || room.current_state.eliminated.includes(player)) {
+    throw new MoveRejectedError("not_a_player");
+  }
+  if (room.status === "waiting") {
+    throw new MoveRejectedError("game_not_started");
+  }
+  if (room.current_state.gameOver) throw new MoveRejectedError("game_over");
+  return player;
+}
+
+// Takes `userId` out of the game at once, whoever's turn it is. With only
+// one opponent left, that opponent wins.
+export function validateResignation(
+  room: GameRoom,
+  userId: string,
+  now = Date.now()
+): ValidatedMove {
+  const player = getPlayingSeat(room, userId);
+  const move: Forfeit = { player, forfeit: true, reason: "resignation" };
+  const { state } = forfeitPlayer(room.current_state, player, move.reason);
+  return buildTurns(room, [{ player, state, move, chain: 0 }], now);
+}
+
+// Offers or accepts a draw, or with accept false declines one. The game is
+// drawn once everyone still in it has offered, and the history records the
+// last of them as the game's final turn; until then the offers are only
+// noted, and they lapse as soon as anyone moves.
+export function validateDrawResponse(
+  room: GameRoom,
+  userId: string,
+  accept: boolean,
+  now = Date.now()
+): ValidatedMove {
+  const player = getPlayingSeat(room, userId);
+  const { current_state: current } = room;
+  const remaining = room.seats.filter(
+    (seat) => !current.eliminated.includes(seat.seat)
+  );
+  if (remaining.some((seat) => seat.bot)) {
+    throw new MoveRejectedError("bots_cannot_draw");
+  }
+
+  const offers = room.draw_offers ?? [];
+  if (!accept && offers.length === 0) {
+    throw new MoveRejectedError("no_draw_offer");
+  }
+
+  const drawOffers = accept
+    ? [...offers.filter((seat) => seat !== player), player]
+    : [];
+
+  if (remaining.every((seat) => drawOffers.includes(seat.seat))) {
+    const move: Draw = { player, draw: true };
+    const state = drawGame(current);
+    return buildTurns(room, [{ player, state, move, chain: 0 }], now);
+  }
+
+  return buildVotes(room, { draw_offers: drawOffers });
+}
+
+// Notes who has agreed to something without changing the game, so the
+// clock keeps running too
+function buildVotes(
+  room: GameRoom,
+  votes: Partial<Pick<RoomUpdate, "draw_offers" | "takeback_votes">>
+): ValidatedMove {
+  return {
+    update: {
+      current_state: room.current_state,
+      seats: room.seats,
+      game_over: room.game_over,
+      winner: room.winner,
+      status: room.status,
+      result_reason: room.result_reason,
+      series_wins: room.series_wins,
+      draw_offers: room.draw_offers ?? [],
+      takeback_votes: room.takeback_votes ?? [],
+      ...votes,
+      version: room.version + 1,
+      clocks: room.clocks,
+      turn_started_at: room.turn_started_at,
+      turn_deadline: room.turn_deadline,
+    },
+    records: [],
+  };
+}
+
+// Where `player`'s last move sits in the current game's history, oldest
+// first, when only bots have moved since; -1 when there is none to take back.
+// The history has to end at the room's position to be trusted.
+function findTakebackMove(
+  room: GameRoom,
+  player: number,
+  history: MoveRecord[]
+) {
+  const { current_state: current } = room;
+  const last = history[history.length - 1];
+  if (
+    !last ||
+    last.move_number !== current.moveNumber ||
+    last.board_hash !== hashBoard(current.board)
+  ) {
+    return -1;
+  }
+
+  for (let index = history.length - 1; index >= 0; index--) {
+    const record = history[index];
+    if (record.forfeit) return -1;
+    if (record.player === player) return index;
+    if (!room.seats[record.player]?.bot) return -1;
+  }
+  return -1;
+}
+
+// Asks to take back your own last move, or with others' requests agrees to
+// or (accept false) refuses one. Once everyone else still in the game has
+// agreed, bots always do, the position before the move is rebuilt from the
+// current game's history, oldest first, and the move is struck from it
+// along with any bot replies that followed it, as local undo does.
+export function validateTakebackResponse(
+  room: GameRoom,
+  userId: string,
+  accept: boolean,
+  history: MoveRecord[],
+  now = Date.now()
+): ValidatedMove {
+  const player = getPlayingSeat(room, userId);
+  const { current_state: current } = room;
+  const votes = room.takeback_votes ?? [];
+
+  if (!accept) {
+    if (votes.length === 0) {
+      throw new MoveRejectedError("no_takeback_request");
+    }
+    return buildVotes(room, { takeback_votes: [] });
+  }
+
+  if (votes.length === 0 && findTakebackMove(room, player, history) < 0) {
+    throw new MoveRejectedError("no_takeback");
+  }
+
+  const takebackVotes = votes.includes(player) ? votes : [...votes, player];
+  const isAgreed = room.seats.every(
+    (seat) =>
+      seat.bot ||
+      current.eliminated.includes(seat.seat) ||
+      takebackVotes.includes(seat.seat)
+  );
+  if (!isAgreed) return buildVotes(room, { takeback_votes: takebackVotes });
+
+  const index = findTakebackMove(room, takebackVotes[0], history);
+  if (index < 0) throw new MoveRejectedError("history_unavailable");
+
+  let state: GameState;
+  try {
+    const states = replayMoves(
+      createGameState(
+        current.size,
+        current.playerCount,
+        getFirstPlayer(room.game_number ?? 1, current.playerCount),
+        current.variant
+      ),
+      history.slice(0, index).map(getRecordedTurn)
+    );
+    state = states[states.length - 1];
+  } catch {
+    throw new MoveRejectedError("history_unavailable");
+  }
+
+  return {
+    update: buildUpdate(room, null, state, room.version + 1, now),
+    records: [],
+    removedVersions: history.slice(index).map((move) => move.room_version),
+  };
+}
@@ -0,0 +1,35 @@
+export interface PlayerInfo {
+  id: number;
+  color: string;
+  // Shown instead of "Player N" when set
+  name?: string;
+}
+
+// Seat colours by name, for places too small for "Player N"
+export const COLOR_NAMES = [
+  "Red",
+  "Green",
+  "Blue",
+  "Amber",
+  "Purple",
+  "Cyan",
+  "Orange",
+  "Pink",
+];
+
+export const PLAYERS: PlayerInfo[] = [
+  { id: 0, color: "#FF5252" }, // Red
+  { id: 1, color: "#4CAF50" }, // Green
+  { id: 2, color: "#2196F3" }, // Blue
+  { id: 3, color: "#FFC107" }, // Amber
+  { id: 4, color: "#9C27B0" }, // Purple
+  { id: 5, color: "#00BCD4" }, // Cyan
+  { id: 6, color: "#FF9800" }, // Orange
+  { id: 7, color: "#E91E63" }, // Pink
+];
+
+// The name of a seat colour, which may not be the seat's own
+export function getColorName(color: string) {
+  const index = PLAYERS.findIndex((player) => player.color === color);
+  return COLOR_NAMES[index] ?? "Player";
+}
@@ -0,0 +1,51 @@
+import { PLAYERS } from "./players.ts";
+import type { Profile } from "./types.ts";
+
+export const MAX_DISPLAY_NAME_LENGTH = 40;
+
+// The parts of a profile its owner may change
+export type ProfileChanges = Pick<
+  Profile,
+  "display_name" | "avatar_url" | "favorite_color"
+>;
+
+export type ProfileError = "name_empty" | "name_too_long" | "bad_avatar_url";
+
+export const PROFILE_ERROR_MESSAGES: Record<ProfileError, string> = {
+  name_empty: "Choose a display name",
+  name_too_long: `Display names can be at most ${MAX_DISPLAY_NAME_LENGTH} characters`,
+  bad_avatar_url: "Avatar links must start with https://",
+};
+
+// Checks changes against the same rules as the profiles table
+export function getProfileError(changes: ProfileChanges): ProfileError | null {
+  const name = changes.display_name?.trim() ?? "";
+  if (name.length === 0) return "name_empty";
+  if (name.length > MAX_DISPLAY_NAME_LENGTH) return "name_too_long";
+  if (changes.avatar_url && !/^https:\/\/\S+$/.test(changes.avatar_url)) {
+    return "bad_avatar_url";
+  }
+  return null;
+}
+
+export function isSeatColor(color: string | null) {
+  return color === null || PLAYERS.some((player) => player.color === color);
+}
+
+// What to call a signed-in user: their chosen name, then what their sign-in
+// provider knows them by
+export function getDisplayName(
+  user: { email?: string; user_metadata?: { full_name?: string } },
+  profile?: Profile | null
+) {
+  return (
+    profile?.display_name ??
+    user.user_metadata?.full_name ??
+    user.email ??
+    "Anonymous"
+  );
+}
+
+export function getProfileName(profile: Profile | undefined) {
+  return profile?.display_name ?? "Unnamed player";
+}
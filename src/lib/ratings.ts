@@ -0,0 +1,47 @@
+import type { GameState } from "./engine/index.ts";
+
+export const DEFAULT_RATING = 1200;
+
+// The most a rating can move in one game
+const K_FACTOR = 32;
+
+// The score `rating` is expected to take off `opponent`, from 0 to 1
+export function getExpectedScore(rating: number, opponent: number) {
+  return 1 / (1 + 10 ** ((opponent - rating) / 400));
+}
+
+// Where each seat in a finished game's standings came, from 0 for first.
+// Everyone still in when a draw was agreed shares first place.
+export function getPlaces(state: GameState): number[] {
+  const tied =
+    state.resultReason === "draw"
+      ? state.playerCount - state.eliminated.length
+      : 1;
+  return state.standings.map((_, index) => Math.max(0, index - tied + 1));
+}
+
+// How much each rating changes after a game, given the players' ratings and
+// where they placed. Every player is scored as having beaten everyone who
+// placed below them, lost to everyone above and drawn with the rest, with
+// the swing shared out so a full table moves no more than a duel.
+export function getRatingChanges(
+  ratings: number[],
+  places: number[]
+): number[] {
+  if (ratings.length < 2) return ratings.map(() => 0);
+
+  const k = K_FACTOR / (ratings.length - 1);
+  return ratings.map((rating, i) => {
+    const change = ratings.reduce((total, opponent, j) => {
+      if (j === i) return total;
+      const score =
+        places[i] < places[j] ? 1 : places[i] === places[j] ? 0.5 : 0;
+      return total + k * (score - getExpectedScore(rating, opponent));
+    }, 0);
+    return Math.round(change);
+  });
+}
+
+export function getWinRate(gamesPlayed: number, wins: number) {
+  return gamesPlayed === 0 ? 0 : wins / gamesPlayed;
+}
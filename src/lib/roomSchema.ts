@@ -0,0 +1,131 @@
+import { getGameStateError, migrateGameState } from "./engine/index.ts";
+import { BOT_LEVELS } from "./bots/types.ts";
+import { isValidTimeControl, type TimeControl } from "./timeControl.ts";
+import { isValidAbandonGrace } from "./abandonment.ts";
+import type { Json, Tables } from "./database.types.ts";
+import type { GameRoom, GameState, Seat } from "./types.ts";
+
+// Checks game_rooms rows as they arrive, so a malformed or outdated row is
+// turned away before it can crash rendering or be played from.
+
+export type GameRoomRow = Tables<"game_rooms">;
+
+const STATUSES: GameRoom["status"][] = ["waiting", "playing", "finished"];
+
+function isObject(value: Json | undefined): value is { [key: string]: Json } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isIntegerList(value: Json | undefined): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === "number" && Number.isInteger(item))
+  );
+}
+
+function getSeatError(seat: Json, index: number): string | null {
+  if (!isObject(seat)) return `seat ${index} is not an object`;
+  if (seat.seat !== index) return `seat ${index} is out of order`;
+  if (seat.user_id !== null && typeof seat.user_id !== "string") {
+    return `seat ${index} has an invalid user`;
+  }
+  // Bots take seats nobody signed in holds
+  if (
+    seat.user_id === null
+      ? !BOT_LEVELS.includes(seat.bot as Seat["bot"] & string)
+      : (seat.bot ?? null) !== null
+  ) {
+    return `seat ${index} has an invalid bot level`;
+  }
+  if (typeof seat.color !== "string") return `seat ${index} has no colour`;
+  if (typeof seat.eliminated !== "boolean") {
+    return `seat ${index} has an invalid elimination flag`;
+  }
+  return null;
+}
+
+// What's wrong with a row, or null if it's a room that can be shown and
+// played in. The state inside is checked after upgrading it.
+export function getGameRoomError(row: GameRoomRow): string | null {
+  if (typeof row.id !== "string" || typeof row.player1_id !== "string") {
+    return "missing room or host ID";
+  }
+  if (!STATUSES.includes(row.status as GameRoom["status"])) {
+    return "invalid status";
+  }
+  if (
+    !Number.isInteger(row.capacity) ||
+    !Number.isInteger(row.version) ||
+    row.version < 0
+  ) {
+    return "invalid capacity or version";
+  }
+  if (!isValidAbandonGrace(row.abandon_grace_seconds)) {
+    return "invalid abandonment grace period";
+  }
+
+  const { seats } = row;
+  if (!Array.isArray(seats) || seats.length > row.capacity) {
+    return "invalid seats";
+  }
+  for (const [index, seat] of seats.entries()) {
+    const error = getSeatError(seat, index);
+    if (error) return error;
+  }
+
+  const state = migrateGameState(row.current_state);
+  if (!state) return "unrecognised game state version";
+  const stateError = getGameStateError(state);
+  if (stateError) return `invalid game state: ${stateError}`;
+
+  const { playerCount, gameOver, winner } = state as unknown as GameState;
+  if (row.status !== "waiting") {
+    if (playerCount !== seats.length) {
+      return "game state does not match the seats";
+    }
+    if ((row.status === "finished") !== gameOver || row.winner !== winner) {
+      return "room result does not match its game state";
+    }
+  }
+
+  if (
+    row.time_control !== null &&
+    (!isObject(row.time_control) ||
+      !isValidTimeControl(row.time_control as unknown as TimeControl))
+  ) {
+    return "invalid time control";
+  }
+  if (
+    row.clocks !== null &&
+    (!Array.isArray(row.clocks) ||
+      row.clocks.length !== seats.length ||
+      !row.clocks.every((ms) => typeof ms === "number"))
+  ) {
+    return "invalid clocks";
+  }
+  for (const votes of [
+    row.series_wins,
+    row.rematch_votes,
+    row.draw_offers,
+    row.takeback_votes,
+  ]) {
+    if (!isIntegerList(votes)) return "invalid seat list";
+  }
+
+  return null;
+}
+
+// A row as a room, with its state upgraded to the current version, or null
+// (saying why) when it can't be used
+export function parseGameRoom(row: GameRoomRow): GameRoom | null {
+  const error = getGameRoomError(row);
+  if (error) {
+    console.error("Discarding invalid game room:", { id: row.id, error });
+    return null;
+  }
+
+  return {
+    ...(row as unknown as GameRoom),
+    current_state: migrateGameState(row.current_state) as unknown as GameState,
+  };
+}
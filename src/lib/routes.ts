@@ -0,0 +1,38 @@
+// The app's URLs; rooms get their own so reloading or sharing a link lands
+// back in the same game
+export type Route =
+  | { name: "home" }
+  | { name: "profile" }
+  | { name: "leaderboard" }
+  | { name: "room"; roomId: string }
+  | { name: "join"; roomId: string };
+
+const ROOM_PATH = /^\/(room|join)\/([^/]+)\/?$/;
+const PAGE_PATH = /^\/(profile|leaderboard)\/?$/;
+
+export function parseRoute(pathname: string): Route {
+  const page = PAGE_PATH.exec(pathname);
+  if (page) return { name: page[1] as "profile" | "leaderboard" };
+
+  const match = ROOM_PATH.exec(pathname);
+  if (!match) return { name: "home" };
+
+  const [, name, roomId] = match;
+  return {
+    name: name as "room" | "join",
+    roomId: decodeURIComponent(roomId),
+  };
+}
+
+export function getRoutePath(route: Route) {
+  if (route.name === "home") return "/";
+  if (route.name === "profile" || route.name === "leaderboard") {
+    return `/${route.name}`;
+  }
+  return `/${route.name}/${encodeURIComponent(route.roomId)}`;
+}
+
+// Opening this signs the visitor in if needed and takes a seat in the room
+export function getInviteLink(roomId: string) {
+  return `${window.location.origin}${getRoutePath({ name: "join", roomId })}`;
+}
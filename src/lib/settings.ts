@@ -0,0 +1,27 @@
+export type AnimationSpeed = "off" | "normal" | "fast";
+
+export const ANIMATION_SPEEDS: AnimationSpeed[] = ["normal", "fast", "off"];
+
+export const ANIMATION_SPEED_LABELS: Record<AnimationSpeed, string> = {
+  normal: "Normal",
+  fast: "Fast",
+  off: "Off",
+};
+
+// How long atoms take to fly to their neighbours in each explosion wave
+export const WAVE_DURATION_MS: Record<AnimationSpeed, number> = {
+  normal: 400,
+  fast: 150,
+  off: 0,
+};
+
+const ANIMATION_SPEED_KEY = "chain-reaction:animation-speed";
+
+export function loadAnimationSpeed(): AnimationSpeed {
+  const stored = localStorage.getItem(ANIMATION_SPEED_KEY);
+  return ANIMATION_SPEEDS.find((speed) => speed === stored) ?? "normal";
+}
+
+export function saveAnimationSpeed(speed: AnimationSpeed) {
+  localStorage.setItem(ANIMATION_SPEED_KEY, speed);
+}
@@ -1,57 +1,86 @@
-import { createClient, User } from "@supabase/supabase-js";
+import {
+  createClient,
+  FunctionsHttpError,
+  type SupabaseClient,
+  type User,
+} from "@supabase/supabase-js";
+import type { BoardSize } from "./engine";
+import { isMoveRejection, MoveRejectedError } from "./moveValidator";
+import {
+  getDisplayName,
+  getProfileError,
+  isSeatColor,
+  type ProfileChanges,
+} from "./profiles";
+import type { BotLevel } from "./bots";
+import { getRoomCheck, isOpenRoom, isQuickMatch } from "./backend/rooms";
+import type {
+  LeaderboardSort,
+  RoomCheck,
+  RoomOptions,
+  RoomSubscription,
+  RoomSubscriptionOptions,
+  RoomViewer,
+} from "./backend/types";
+import { MAX_CHAT_LENGTH } from "./chat";
+import { parseGameRoom } from "./roomSchema";
+import type {
+  ChatMessage,
+  GameRoom,
+  GameState,
+  MoveRecord,
+  Profile,
+  Seat,
+} from "./types";
+
+export type { ChatMessage, GameRoom, GameState, MoveRecord, Profile, Seat };
 
 // Initialize the Supabase client
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error("Missing Supabase environment variables");
-}
+// Builds without these can still play local games, so only fail once
+// something actually needs the backend
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
+
+let client: SupabaseClient | null = null;
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export function getSupabase(): SupabaseClient {
+  if (!isSupabaseConfigured) {
+    throw new Error("Missing Supabase environment variables");
+  }
+  client ??= createClient(supabaseUrl, supabaseAnonKey);
+  return client;
+}
 
 // Auth functions
 export async function signInWithGoogle() {
-  const { error } = await supabase.auth.signInWithOAuth({
+  const { error } = await getSupabase().auth.signInWithOAuth({
     provider: "google",
     options: {
-      redirectTo: `${window.location.origin}/`,
+      // Come back to the room or invite link that asked for sign-in
+      redirectTo: window.location.href,
     },
   });
   if (error) throw error;
 }
 
 export async function signOut() {
-  const { error } = await supabase.auth.signOut();
+  const { error } = await getSupabase().auth.signOut();
   if (error) throw error;
 }
 
 export async function getCurrentUser(): Promise<User | null> {
+  if (!isSupabaseConfigured) return null;
+
   const {
     data: { user },
-  } = await supabase.auth.getUser();
+  } = await getSupabase().auth.getUser();
   return user;
 }
 
-export interface GameState {
-  board: Array<Array<{ count: number; player: number | null }>>;
-  currentPlayer: number;
-  gameOver: boolean;
-  winner: number | null;
-}
-
-// Game room types
-export interface GameRoom {
-  id: string;
-  created_at: string;
-  player1_id: string;
-  player2_id: string | null;
-  current_state: GameState;
-  game_over: boolean;
-  winner: number | null;
-  status: "waiting" | "playing" | "finished";
-}
-
+// The name other players see: the one they chose, or failing that the
+// sign-in provider's
 // Helper function to validate UUID
 function isValidUUID(uuid: string) {
   const uuidRegex =
@@ -60,190 +89,316 @@ function isValidUUID(uuid: string) {
 }
 
 // Game room functions
-export async function createGameRoom(userId: string): Promise<string | null> {
+// The create-room edge function checks the host's choices and seats them,
+// since clients can't write rooms themselves
+export async function createGameRoom(
+  userId: string,
+  size: BoardSize,
+  options: RoomOptions = {}
+): Promise<string | null> {
   const user = await getCurrentUser();
   if (!user || user.id !== userId) {
     console.error("User not authenticated or ID mismatch");
     return null;
   }
 
-  const initialState: GameState = {
-    board: Array(6)
-      .fill(null)
-      .map(() =>
-        Array(6)
-          .fill(null)
-          .map(() => ({ count: 0, player: null }))
-      ),
-    currentPlayer: 0,
-    gameOver: false,
-    winner: null,
-  };
+  const { data, error } = await getSupabase().functions.invoke<{
+    roomId: string;
+  }>("create-room", { body: { size, options } });
 
-  const { data, error } = await supabase
-    .from("game_rooms")
-    .insert([
-      {
-        player1_id: userId,
-        current_state: initialState,
-        game_over: false,
-        winner: null,
-        status: "waiting",
-      },
-    ])
-    .select("id")
-    .single();
-
-  if (error) {
+  if (error || !data) {
     console.error("Error creating game room:", error);
     return null;
   }
 
-  return data.id;
+  return data.roomId;
 }
 
 export async function joinGameRoom(
   roomId: string,
   userId: string
 ): Promise<boolean> {
-  const user = await getCurrentUser();
-  if (!user || user.id !== userId) {
-    console.error("User not authenticated or ID mismatch");
-    return false;
-  }
+  return invokeRoomFunction("take-seat", userId, { roomId });
+}
 
-  // First check if the room exists and is joinable
-  const { data: room, error: checkError } = await supabase
+// Public rooms still waiting for players, oldest first
+export async function getOpenRooms(): Promise<GameRoom[] | null> {
+  const { data, error } = await getSupabase()
     .from("game_rooms")
     .select("*")
-    .eq("id", roomId)
-    .single();
+    .eq("is_public", true)
+    .eq("status", "waiting")
+    .order("created_at", { ascending: true })
+    .limit(50);
 
-  if (checkError || !room) {
-    console.error("Error checking game room:", checkError);
-    return false;
+  if (error) {
+    console.error("Error fetching open rooms:", error);
+    return null;
   }
 
-  // Don't allow the same player to join their own room
-  if (room.player1_id === userId) {
-    console.error("Cannot join your own game room");
-    return false;
-  }
+  return data
+    .map(parseGameRoom)
+    .filter((room): room is GameRoom => room !== null && isOpenRoom(room));
+}
 
-  // Verify the room is joinable
-  if (room.status !== "waiting" || room.player2_id !== null) {
-    console.error("Room is not available for joining");
-    return false;
-  }
+// Keeps callback supplied with the open rooms as they are created, fill up
+// and start
+export function subscribeToOpenRooms(callback: (rooms: GameRoom[]) => void) {
+  let isSubscribed = true;
 
-  // Update room with player 2 and change status to playing
-  const { error } = await supabase
-    .from("game_rooms")
-    .update({
-      player2_id: userId,
-      status: "playing",
-      current_state: {
-        ...room.current_state,
-        currentPlayer: 0, // Ensure we start with player 1
+  // Refetch the whole list on every change so it can't drift
+  const refresh = async () => {
+    const rooms = await getOpenRooms();
+    if (isSubscribed && rooms) callback(rooms);
+  };
+
+  refresh();
+
+  const channel = getSupabase()
+    .channel("open_rooms")
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "game_rooms",
+        filter: "is_public=eq.true",
       },
-    })
-    .eq("id", roomId)
-    .select();
+      refresh
+    )
+    .subscribe((_status, err) => {
+      if (err) {
+        console.error("Open rooms subscription error:", err);
+      }
+    });
 
-  if (error) {
-    console.error("Error joining game room:", error);
-    return false;
+  return {
+    unsubscribe: () => {
+      isSubscribed = false;
+      channel.unsubscribe();
+    },
+  };
+}
+
+// Joins the oldest public room with the same settings, or opens a new public
+// room to wait in when there isn't one. Returns the room's ID.
+export async function quickMatch(
+  userId: string,
+  size: BoardSize,
+  options: Omit<RoomOptions, "isPublic"> = {}
+): Promise<string | null> {
+  const rooms = await getOpenRooms();
+  if (!rooms) return null;
+
+  const candidates = rooms.filter((room) =>
+    isQuickMatch(room, userId, size, options)
+  );
+
+  // Someone else may take the last seat first, so fall through to the next
+  for (const room of candidates) {
+    if (await joinGameRoom(room.id, userId)) return room.id;
   }
 
-  return true;
+  return createGameRoom(userId, size, { ...options, isPublic: true });
+}
+
+// Lets the host fill an empty seat with a computer player, whose moves the
+// host's client then plays
+export async function addBotToRoom(
+  roomId: string,
+  userId: string,
+  level: BotLevel
+): Promise<boolean> {
+  return invokeRoomFunction("take-seat", userId, { roomId, bot: level });
 }
 
-export async function updateGameState(
+// Lets the host start before every seat is taken
+export async function startGameRoom(
   roomId: string,
-  newState: GameState
+  userId: string
+): Promise<boolean> {
+  return invokeRoomFunction("start-room", userId, { roomId });
+}
+
+// Asks for a rematch of the room's finished game. Once every seated person
+// has asked, the last request starts it: the finished game is archived and
+// the next one begins with the following seat to move first.
+export async function requestRematch(
+  roomId: string,
+  userId: string
+): Promise<boolean> {
+  return invokeRoomFunction("request-rematch", userId, { roomId });
+}
+
+// Calls one of the edge functions that seat players and start games, which
+// check the request against the room's rules; clients can't write rooms
+// themselves. Reports whether the room changed.
+async function invokeRoomFunction(
+  name: "take-seat" | "start-room" | "request-rematch",
+  userId: string,
+  body: { roomId: string } & Record<string, unknown>
 ): Promise<boolean> {
   const user = await getCurrentUser();
-  if (!user) {
-    console.error("User not authenticated");
+  if (!user || user.id !== userId) {
+    console.error("User not authenticated or ID mismatch");
     return false;
   }
 
-  if (!isValidUUID(roomId)) {
+  if (!isValidUUID(body.roomId)) {
     console.error("Invalid UUID format for roomId");
     return false;
   }
 
-  console.log("Updating game state:", { roomId, newState });
+  const { error } = await getSupabase().functions.invoke(name, { body });
 
-  // First get the current room state
-  const { data: currentRoom, error: fetchError } = await supabase
-    .from("game_rooms")
-    .select("*")
-    .eq("id", roomId)
-    .single();
-
-  if (fetchError) {
-    console.error("Error fetching current room state:", fetchError);
+  if (error) {
+    console.error(`Error calling ${name}:`, error);
     return false;
   }
 
-  // Perform the update with the complete state
-  const { error } = await supabase
-    .from("game_rooms")
-    .update({
-      current_state: {
-        ...currentRoom.current_state,
-        ...newState,
-      },
-      game_over: newState.gameOver,
-      winner: newState.winner,
-      status: newState.gameOver ? "finished" : "playing",
-    })
-    .eq("id", roomId);
+  return true;
+}
+
+// Calls one of the edge functions that change a game in progress, turning
+// their refusals into MoveRejectedError
+async function invokeTurnFunction(
+  name:
+    | "submit-move"
+    | "claim-timeout"
+    | "claim-abandonment"
+    | "resign"
+    | "respond-draw"
+    | "takeback",
+  body: { roomId: string } & Record<string, unknown>
+): Promise<GameState> {
+  if (!isValidUUID(body.roomId)) {
+    throw new MoveRejectedError("room_not_found");
+  }
+
+  const { data, error } = await getSupabase().functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response = await error.context.json().catch(() => null);
+      if (isMoveRejection(response?.error)) {
+        throw new MoveRejectedError(response.error);
+      }
+    }
+    console.error(`Error calling ${name}:`, error);
+    throw error;
+  }
+
+  return data.state as GameState;
+}
+
+// Moves are judged and applied by the submit-move edge function; the client
+// only says where it wants to play. Throws MoveRejectedError when refused.
+export async function submitMove(
+  roomId: string,
+  row: number,
+  col: number
+): Promise<GameState> {
+  return invokeTurnFunction("submit-move", { roomId, row, col });
+}
+
+// Asks the server to settle a turn whose deadline has passed; it checks the
+// deadline against its own clock, so an early claim is refused with
+// not_timed_out
+export async function claimTimeout(roomId: string): Promise<GameState> {
+  return invokeTurnFunction("claim-timeout", { roomId });
+}
+
+// Claims the game once every other player still in it has been disconnected
+// for the room's grace period, which the server checks against heartbeats
+export async function claimAbandonment(roomId: string): Promise<GameState> {
+  return invokeTurnFunction("claim-abandonment", { roomId });
+}
+
+// Concedes at once, whoever's turn it is
+export async function resign(roomId: string): Promise<GameState> {
+  return invokeTurnFunction("resign", { roomId });
+}
+
+// Offers a draw, or accepts the one on the table; with accept false,
+// declines it. Everyone still in the game has to agree.
+export async function respondToDraw(
+  roomId: string,
+  accept: boolean
+): Promise<GameState> {
+  return invokeTurnFunction("respond-draw", { roomId, accept });
+}
+
+// Asks to take back your own last move, or agrees to someone else's
+// request; with accept false, refuses it. Everyone else still in the game
+// has to agree.
+export async function respondToTakeback(
+  roomId: string,
+  accept: boolean
+): Promise<GameState> {
+  return invokeTurnFunction("takeback", { roomId, accept });
+}
+
+// Tells the server this user still has the room open; the database stamps
+// the time so the claim-abandonment function can trust it
+export async function sendHeartbeat(roomId: string): Promise<boolean> {
+  const { error } = await getSupabase().rpc("touch_room_heartbeat", {
+    target_room: roomId,
+  });
 
   if (error) {
-    console.error("Error updating game state:", error);
+    console.error("Error sending heartbeat:", error);
     return false;
   }
 
-  console.log("Game state updated successfully");
   return true;
 }
 
 export function subscribeToGameRoom(
   roomId: string,
-  callback: (gameRoom: GameRoom) => void
-) {
+  callback: (gameRoom: GameRoom) => void,
+  { presence, onChatMessage }: RoomSubscriptionOptions = {}
+): RoomSubscription {
   if (!isValidUUID(roomId)) {
     console.error("Invalid UUID format for roomId");
-    return {
-      unsubscribe: () => {},
-    };
+    return { unsubscribe: () => {} };
   }
 
   console.log("Setting up subscription for room:", roomId);
 
+  // Fetches can resolve out of order, so only pass on rooms newer than the
+  // last one delivered
+  let lastVersion = -1;
+  const deliver = (gameRoom: GameRoom) => {
+    if (gameRoom.version <= lastVersion) return;
+    lastVersion = gameRoom.version;
+    callback(gameRoom);
+  };
+
   // First fetch the current state
-  supabase
+  getSupabase()
     .from("game_rooms")
     .select("*")
     .eq("id", roomId)
     .single()
     .then(({ data, error }) => {
-      if (!error && data) {
-        const gameRoom = data as GameRoom;
+      const gameRoom = !error && data ? parseGameRoom(data) : null;
+      if (gameRoom) {
         console.log("Initial fetch in subscription:", {
           status: gameRoom.status,
-          player2_id: gameRoom.player2_id,
+          seats: gameRoom.seats.length,
           currentPlayer: gameRoom.current_state.currentPlayer,
         });
-        callback(gameRoom);
+        deliver(gameRoom);
       }
     });
 
-  // Set up real-time subscription
-  const channel = supabase
-    .channel(`game_room:${roomId}`)
+  // Set up real-time subscription, announcing ourselves on the same channel
+  // when asked to
+  const channel = getSupabase()
+    .channel(
+      `game_room:${roomId}`,
+      presence && { config: { presence: { key: presence.userId } } }
+    )
     .on(
       "postgres_changes",
       {
@@ -261,7 +416,7 @@ export function subscribeToGameRoom(
         }
 
         // Fetch the latest state to ensure consistency
-        const { data, error } = await supabase
+        const { data, error } = await getSupabase()
           .from("game_rooms")
           .select("*")
           .eq("id", roomId)
@@ -272,25 +427,57 @@ export function subscribeToGameRoom(
           return;
         }
 
-        const gameRoom = data as GameRoom;
-        if (gameRoom && gameRoom.current_state) {
+        const gameRoom = parseGameRoom(data);
+        if (gameRoom) {
           console.log("Processing realtime update:", {
             status: gameRoom.status,
-            player2_id: gameRoom.player2_id,
+            seats: gameRoom.seats.length,
             currentPlayer: gameRoom.current_state.currentPlayer,
             board: gameRoom.current_state.board,
           });
-          callback(gameRoom);
+          deliver(gameRoom);
         }
       }
-    )
-    .subscribe((status, err) => {
-      if (err) {
-        console.error("Subscription error:", err);
-      } else {
-        console.log("Subscription status:", status);
-      }
+    );
+
+  // Only rows the database accepted arrive, so every message really was sent
+  // by its seated author
+  if (onChatMessage) {
+    channel.on(
+      "postgres_changes",
+      {
+        event: "INSERT",
+        schema: "public",
+        table: "room_messages",
+        filter: `room_id=eq.${roomId}`,
+      },
+      ({ new: message }) => onChatMessage(message as ChatMessage)
+    );
+  }
+
+  if (presence) {
+    channel.on("presence", { event: "sync" }, () => {
+      const viewers = Object.values(channel.presenceState<RoomViewer>()).map(
+        ([viewer]) => viewer
+      );
+      presence.onSync(viewers);
     });
+  }
+
+  channel.subscribe((status, err) => {
+    if (err) {
+      console.error("Subscription error:", err);
+      return;
+    }
+
+    console.log("Subscription status:", status);
+    if (status === "SUBSCRIBED" && presence) {
+      channel.track({
+        user_id: presence.userId,
+        joined_at: new Date().toISOString(),
+      });
+    }
+  });
 
   return {
     unsubscribe: () => {
@@ -300,31 +487,216 @@ export function subscribeToGameRoom(
   };
 }
 
-export async function checkGameRoom(
-  roomId: string
-): Promise<{ exists: boolean; canJoin: boolean }> {
+const MISSING_ROOM: RoomCheck = {
+  exists: false,
+  canJoin: false,
+  isSeated: false,
+};
+
+export async function checkGameRoom(roomId: string): Promise<RoomCheck> {
   const user = await getCurrentUser();
   if (!user) {
     console.error("User not authenticated");
-    return { exists: false, canJoin: false };
+    return MISSING_ROOM;
   }
 
+  return getRoomCheck(await getGameRoom(roomId), user.id);
+}
+
+export async function getGameRoom(roomId: string): Promise<GameRoom | null> {
   if (!isValidUUID(roomId)) {
-    return { exists: false, canJoin: false };
+    console.error("Invalid UUID format for roomId");
+    return null;
   }
 
-  const { data, error } = await supabase
+  const { data, error } = await getSupabase()
     .from("game_rooms")
-    .select("player2_id, status")
+    .select("*")
     .eq("id", roomId)
     .single();
 
-  if (error || !data) {
-    return { exists: false, canJoin: false };
+  if (error) {
+    console.error("Error fetching game room:", error);
+    return null;
   }
 
-  return {
-    exists: true,
-    canJoin: data.status === "waiting" && data.player2_id === null,
-  };
+  return parseGameRoom(data);
+}
+
+export async function getMoveHistory(
+  roomId: string
+): Promise<MoveRecord[] | null> {
+  if (!isValidUUID(roomId)) {
+    console.error("Invalid UUID format for roomId");
+    return null;
+  }
+
+  const { data, error } = await getSupabase()
+    .from("game_moves")
+    .select("*")
+    .eq("room_id", roomId)
+    .order("room_version", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching move history:", error);
+    return null;
+  }
+
+  return data as MoveRecord[];
+}
+
+// A room's chat so far, oldest first
+export async function getChatMessages(
+  roomId: string
+): Promise<ChatMessage[] | null> {
+  if (!isValidUUID(roomId)) {
+    console.error("Invalid UUID format for roomId");
+    return null;
+  }
+
+  const { data, error } = await getSupabase()
+    .from("room_messages")
+    .select("*")
+    .eq("room_id", roomId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching chat messages:", error);
+    return null;
+  }
+
+  return data as ChatMessage[];
+}
+
+// Saves a message to the room's chat; the database enforces the length and
+// rate limits too, so this returns null when it refuses
+export async function sendChatMessage(
+  roomId: string,
+  kind: ChatMessage["kind"],
+  body: string
+): Promise<ChatMessage | null> {
+  const user = await getCurrentUser();
+  if (!user) {
+    console.error("User not authenticated");
+    return null;
+  }
+
+  const text = body.trim();
+  if (!isValidUUID(roomId) || !text || text.length > MAX_CHAT_LENGTH) {
+    console.error("Invalid chat message:", { roomId, length: text.length });
+    return null;
+  }
+
+  // Named as the seat list and leaderboard name them
+  const profile = await getProfile(user.id);
+  const { data, error } = await getSupabase()
+    .from("room_messages")
+    .insert([
+      {
+        room_id: roomId,
+        user_id: user.id,
+        author_name: getDisplayName(user, profile),
+        kind,
+        body: text,
+      },
+    ])
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error("Error sending chat message:", error);
+    return null;
+  }
+
+  return data as ChatMessage;
+}
+
+export async function getProfile(userId: string): Promise<Profile | null> {
+  const { data, error } = await getSupabase()
+    .from("profiles")
+    .select("*")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching profile:", error);
+    return null;
+  }
+
+  return data as Profile | null;
+}
+
+export async function getProfiles(
+  userIds: string[]
+): Promise<Profile[] | null> {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await getSupabase()
+    .from("profiles")
+    .select("*")
+    .in("id", userIds);
+
+  if (error) {
+    console.error("Error fetching profiles:", error);
+    return null;
+  }
+
+  return data as Profile[];
+}
+
+// Saves how the signed-in player appears to others; their stats and rating
+// are only ever written by the server
+export async function updateProfile(
+  changes: ProfileChanges
+): Promise<Profile | null> {
+  const user = await getCurrentUser();
+  if (!user) {
+    console.error("User not authenticated");
+    return null;
+  }
+
+  const error = getProfileError(changes);
+  if (error || !isSeatColor(changes.favorite_color)) {
+    console.error("Invalid profile:", error ?? changes.favorite_color);
+    return null;
+  }
+
+  const { data, error: updateError } = await getSupabase()
+    .from("profiles")
+    .update({
+      display_name: changes.display_name!.trim(),
+      avatar_url: changes.avatar_url || null,
+      favorite_color: changes.favorite_color,
+    })
+    .eq("id", user.id)
+    .select("*")
+    .single();
+
+  if (updateError) {
+    console.error("Error updating profile:", updateError);
+    return null;
+  }
+
+  return data as Profile;
+}
+
+// Everyone who has finished a game, best first by `sort`
+export async function getLeaderboard(
+  sort: LeaderboardSort,
+  limit = 50
+): Promise<Profile[] | null> {
+  const { data, error } = await getSupabase()
+    .from("profiles")
+    .select("*")
+    .gt("games_played", 0)
+    .order(sort, { ascending: false })
+    .order("last_played_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching leaderboard:", error);
+    return null;
+  }
+
+  return data as Profile[];
 }
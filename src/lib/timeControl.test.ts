@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { createGameState } from "./engine";
+import {
+  validateMove,
+  validateResignation,
+  validateTakebackResponse,
+  type ValidatedMove,
+} from "./moveValidator";
+import { startClock, type TimeControl } from "./timeControl";
+import type { GameRoom, MoveRecord } from "./types";
+
+const START = Date.parse("2026-10-19T12:00:00Z");
+const SECOND = 1000;
+
+const TIME_CONTROL: TimeControl = {
+  moveSeconds: null,
+  bankSeconds: 60,
+  incrementSeconds: 2,
+  onTimeout: "forfeit",
+};
+
+const USERS = ["alice", "bob", "carol"];
+
+function createRoom(playerCount: number): GameRoom {
+  const state = createGameState({ rows: 4, cols: 4 }, playerCount);
+  return {
+    id: "00000000-0000-4000-8000-000000000000",
+    created_at: new Date(START).toISOString(),
+    player1_id: USERS[0],
+    seats: USERS.slice(0, playerCount).map((user_id, seat) => ({
+      seat,
+      user_id,
+      bot: null,
+      color: "#FF5252",
+      eliminated: false,
+    })),
+    capacity: playerCount,
+    is_public: false,
+    host_name: null,
+    current_state: state,
+    game_over: false,
+    winner: null,
+    status: "playing",
+    result_reason: null,
+    abandon_grace_seconds: 60,
+    game_number: 1,
+    series_wins: [],
+    rematch_votes: [],
+    draw_offers: [],
+    takeback_votes: [],
+    time_control: TIME_CONTROL,
+    version: 1,
+    ...startClock(TIME_CONTROL, state, START),
+  };
+}
+
+function apply(room: GameRoom, history: MoveRecord[], turn: ValidatedMove) {
+  const removed = turn.removedVersions ?? [];
+  const kept = history.filter((move) => !removed.includes(move.room_version));
+  const records = turn.records.map((record) => ({
+    ...record,
+    id: crypto.randomUUID(),
+    created_at: new Date(START).toISOString(),
+  }));
+  return {
+    room: { ...room, ...turn.update },
+    history: [...kept, ...records],
+  };
+}
+
+describe("the turn clock", () => {
+  it("charges the mover for their turn and starts the next seat's", () => {
+    const { room } = apply(
+      createRoom(2),
+      [],
+      validateMove(createRoom(2), "alice", 0, 0, START + 10 * SECOND)
+    );
+
+    expect(room.clocks).toEqual([52 * SECOND, 60 * SECOND]);
+    expect(room.turn_started_at).toBe(
+      new Date(START + 10 * SECOND).toISOString()
+    );
+    expect(room.turn_deadline).toBe(
+      new Date(START + 70 * SECOND).toISOString()
+    );
+  });
+
+  it("leaves the mover's turn running when someone else resigns", () => {
+    const before = createRoom(3);
+    const { room } = apply(
+      before,
+      [],
+      validateResignation(before, "carol", START + 10 * SECOND)
+    );
+
+    expect(room.current_state.eliminated).toEqual([2]);
+    expect(room.clocks).toEqual(before.clocks);
+    expect(room.turn_started_at).toBe(before.turn_started_at);
+    expect(room.turn_deadline).toBe(before.turn_deadline);
+  });
+
+  it("charges nobody for a takeback", () => {
+    let { room, history } = apply(
+      createRoom(2),
+      [],
+      validateMove(createRoom(2), "alice", 0, 0, START + 10 * SECOND)
+    );
+    const clocks = room.clocks;
+
+    ({ room, history } = apply(
+      room,
+      history,
+      validateTakebackResponse(
+        room,
+        "alice",
+        true,
+        history,
+        START + 20 * SECOND
+      )
+    ));
+    ({ room, history } = apply(
+      room,
+      history,
+      validateTakebackResponse(room, "bob", true, history, START + 30 * SECOND)
+    ));
+
+    expect(history).toHaveLength(0);
+    expect(room.current_state.currentPlayer).toBe(0);
+    expect(room.clocks).toEqual(clocks);
+    expect(room.turn_started_at).toBe(
+      new Date(START + 30 * SECOND).toISOString()
+    );
+  });
+});
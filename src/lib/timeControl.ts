@@ -0,0 +1,233 @@
+import type { GameState } from "./engine/index.ts";
+import type { GameRoom } from "./types.ts";
+
+export type TimeoutAction = "forfeit" | "random_move";
+
+export interface TimeControl {
+  // Longest a single turn may take, or null for no per-move limit
+  moveSeconds: number | null;
+  // Each seat's thinking time for the whole game, or null for no bank
+  bankSeconds: number | null;
+  // Added to a seat's bank after each of its turns
+  incrementSeconds: number;
+  onTimeout: TimeoutAction;
+}
+
+export type TurnClock = Pick<
+  GameRoom,
+  "clocks" | "turn_started_at" | "turn_deadline"
+>;
+
+export const TIME_CONTROL_PRESETS: Array<{
+  label: string;
+  timeControl: Omit<TimeControl, "onTimeout">;
+}> = [
+  {
+    label: "15s per move",
+    timeControl: { moveSeconds: 15, bankSeconds: null, incrementSeconds: 0 },
+  },
+  {
+    label: "30s per move",
+    timeControl: { moveSeconds: 30, bankSeconds: null, incrementSeconds: 0 },
+  },
+  {
+    label: "1 min per move",
+    timeControl: { moveSeconds: 60, bankSeconds: null, incrementSeconds: 0 },
+  },
+  {
+    label: "3 min + 2s",
+    timeControl: { moveSeconds: null, bankSeconds: 180, incrementSeconds: 2 },
+  },
+  {
+    label: "5 min + 5s",
+    timeControl: { moveSeconds: null, bankSeconds: 300, incrementSeconds: 5 },
+  },
+  {
+    label: "5 min + 5s, 30s max per move",
+    timeControl: { moveSeconds: 30, bankSeconds: 300, incrementSeconds: 5 },
+  },
+];
+
+export const TIMEOUT_ACTION_LABELS: Record<TimeoutAction, string> = {
+  forfeit: "Forfeit",
+  random_move: "Random move",
+};
+
+const NO_CLOCK: TurnClock = {
+  clocks: null,
+  turn_started_at: null,
+  turn_deadline: null,
+};
+
+function isSeconds(value: unknown, min: number, max: number) {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+export function isValidTimeControl(timeControl: TimeControl) {
+  const { moveSeconds, bankSeconds, incrementSeconds, onTimeout } = timeControl;
+  return (
+    (moveSeconds !== null || bankSeconds !== null) &&
+    (moveSeconds === null || isSeconds(moveSeconds, 5, 3600)) &&
+    (bankSeconds === null || isSeconds(bankSeconds, 10, 7200)) &&
+    isSeconds(incrementSeconds, 0, 60) &&
+    onTimeout in TIMEOUT_ACTION_LABELS
+  );
+}
+
+export function isSameTimeControl(
+  a: TimeControl | null,
+  b: TimeControl | null
+) {
+  if (a === null || b === null) return a === b;
+  return (
+    a.moveSeconds === b.moveSeconds &&
+    a.bankSeconds === b.bankSeconds &&
+    a.incrementSeconds === b.incrementSeconds &&
+    a.onTimeout === b.onTimeout
+  );
+}
+
+export function describeTimeControl(timeControl: TimeControl | null) {
+  if (!timeControl) return "No clock";
+
+  const { moveSeconds, bankSeconds, incrementSeconds } = timeControl;
+  const preset = TIME_CONTROL_PRESETS.find(
+    ({ timeControl }) =>
+      timeControl.moveSeconds === moveSeconds &&
+      timeControl.bankSeconds === bankSeconds &&
+      timeControl.incrementSeconds === incrementSeconds
+  );
+  if (preset) return preset.label;
+
+  const parts = [];
+  if (bankSeconds !== null) {
+    parts.push(`${bankSeconds}s + ${incrementSeconds}s`);
+  }
+  if (moveSeconds !== null) parts.push(`${moveSeconds}s per move`);
+  return parts.join(", ");
+}
+
+// How long the seat to move gets, given what's left in its bank
+function getTurnLimitMs(timeControl: TimeControl, bankMs: number | null) {
+  const limits = [
+    timeControl.moveSeconds === null
+      ? Infinity
+      : timeControl.moveSeconds * 1000,
+    bankMs ?? Infinity,
+  ];
+  return Math.min(...limits);
+}
+
+function startTurn(
+  timeControl: TimeControl,
+  state: GameState,
+  clocks: number[] | null,
+  now: number
+): TurnClock {
+  if (state.gameOver) return { ...NO_CLOCK, clocks };
+
+  const limit = getTurnLimitMs(
+    timeControl,
+    clocks ? clocks[state.currentPlayer] : null
+  );
+  return {
+    clocks,
+    turn_started_at: new Date(now).toISOString(),
+    turn_deadline: new Date(now + limit).toISOString(),
+  };
+}
+
+// Fills every bank and starts the first turn
+export function startClock(
+  timeControl: TimeControl | null,
+  state: GameState,
+  now: number
+): TurnClock {
+  if (!timeControl) return NO_CLOCK;
+
+  const clocks =
+    timeControl.bankSeconds === null
+      ? null
+      : Array(state.playerCount).fill(timeControl.bankSeconds * 1000);
+  return startTurn(timeControl, state, clocks, now);
+}
+
+// Charges `player` for the turn they just took and starts the next one.
+// Only the seat to move is ever charged: when anyone else changes the game
+// (resigning out of turn, taking a move back) `player` is theirs or null, and
+// the seat to move keeps its running turn if it is still theirs.
+export function advanceClock(
+  room: Pick<
+    GameRoom,
+    | "time_control"
+    | "clocks"
+    | "turn_started_at"
+    | "turn_deadline"
+    | "current_state"
+  >,
+  player: number | null,
+  state: GameState,
+  now: number
+): TurnClock {
+  const { time_control: timeControl } = room;
+  if (!timeControl) return NO_CLOCK;
+
+  const mover = room.current_state.currentPlayer;
+  if (player !== mover) {
+    if (!state.gameOver && state.currentPlayer === mover) {
+      return {
+        clocks: room.clocks,
+        turn_started_at: room.turn_started_at,
+        turn_deadline: room.turn_deadline,
+      };
+    }
+    return startTurn(timeControl, state, room.clocks, now);
+  }
+
+  let clocks = room.clocks;
+  if (clocks && room.turn_started_at) {
+    const elapsed = now - Date.parse(room.turn_started_at);
+    clocks = [...clocks];
+    clocks[player] =
+      Math.max(0, clocks[player] - elapsed) +
+      timeControl.incrementSeconds * 1000;
+  }
+
+  return startTurn(timeControl, state, clocks, now);
+}
+
+export function hasTimedOut(
+  room: Pick<GameRoom, "status" | "turn_deadline">,
+  now: number
+) {
+  return (
+    room.status === "playing" &&
+    room.turn_deadline !== null &&
+    now >= Date.parse(room.turn_deadline)
+  );
+}
+
+// Time left for `seat`: until the deadline on its turn, its bank otherwise,
+// or null when it has no clock running
+export function getRemainingMs(
+  room: Pick<GameRoom, "clocks" | "turn_deadline">,
+  state: GameState,
+  seat: number,
+  now: number
+): number | null {
+  if (seat === state.currentPlayer && room.turn_deadline) {
+    return Math.max(0, Date.parse(room.turn_deadline) - now);
+  }
+  return room.clocks?.[seat] ?? null;
+}
+
+export function formatClock(ms: number) {
+  const seconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,121 @@
+import type { BotLevel } from "./bots/index.ts";
+import type { GameState, ResultReason } from "./engine/index.ts";
+import type { TimeControl } from "./timeControl.ts";
+
+export type { GameState, ResultReason };
+
+// Game room types
+export interface Seat {
+  seat: number;
+  // Null for computer players, which the host's client plays
+  user_id: string | null;
+  bot: BotLevel | null;
+  color: string;
+  eliminated: boolean;
+}
+
+export interface GameRoom {
+  id: string;
+  created_at: string;
+  // The host, who created the room and may start it before it fills up
+  player1_id: string;
+  // Players in seat order; seat numbers are the engine's player numbers
+  seats: Seat[];
+  capacity: number;
+  // Public rooms are listed in the lobby and can be found by quick match
+  is_public: boolean;
+  // The host's display name when the room was made, for the lobby
+  host_name: string | null;
+  current_state: GameState;
+  game_over: boolean;
+  winner: number | null;
+  status: "waiting" | "playing" | "finished";
+  result_reason: ResultReason | null;
+  // How long players may be disconnected before the rest can claim the game
+  abandon_grace_seconds: number;
+  // Games played in this room so far, counting the current one
+  game_number: number;
+  // Games won by each seat across the room's finished games
+  series_wins: number[];
+  // Seats that have asked for a rematch of the finished game
+  rematch_votes: number[];
+  // Seats that have offered a draw in the current position
+  draw_offers: number[];
+  // The seat asking to take back its last move, then those who agreed
+  takeback_votes: number[];
+  // Null for untimed rooms
+  time_control: TimeControl | null;
+  // Milliseconds left in each seat's bank, when the time control has one
+  clocks: number[] | null;
+  // When the current turn started and must be over by, both ISO timestamps;
+  // null while no clock is running
+  turn_started_at: string | null;
+  turn_deadline: string | null;
+  // Bumped on every write so updates can be made conditional on it
+  version: number;
+}
+
+// One row of game_moves, written by the submit-move and claim-timeout edge
+// functions
+export interface MoveRecord {
+  id: string;
+  room_id: string;
+  // Which of the room's games the move was played in
+  game_number: number;
+  move_number: number;
+  room_version: number;
+  player: number;
+  // True when the seat dropped out instead of moving, with no cell
+  forfeit: boolean;
+  // Why the seat forfeited, or null for a move
+  forfeit_reason: ResultReason | null;
+  // True when the game ended in a draw, with this seat the last to agree
+  draw: boolean;
+  row: number | null;
+  col: number | null;
+  // Cells the move exploded
+  chain_length: number;
+  board_hash: string;
+  created_at: string;
+}
+
+// One row of game_results: a finished game, archived when its room moves on
+// to a rematch
+export interface ArchivedGame {
+  id: string;
+  room_id: string;
+  game_number: number;
+  seats: Seat[];
+  final_state: GameState;
+  winner: number | null;
+  result_reason: ResultReason | null;
+  finished_at: string;
+}
+
+// One row of room_messages: a chat line or a quick reaction
+export interface ChatMessage {
+  id: string;
+  room_id: string;
+  user_id: string;
+  author_name: string;
+  kind: "text" | "reaction";
+  body: string;
+  created_at: string;
+}
+
+// One row of profiles: how a player shows up to others, and their record.
+// Players edit the first three; the rest is kept by the server as games end.
+export interface Profile {
+  id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  // One of the seat colours, used for their seat when it's free
+  favorite_color: string | null;
+  rating: number;
+  games_played: number;
+  wins: number;
+  // Most cells exploded by a single move
+  longest_chain: number;
+  last_played_at: string | null;
+  created_at: string;
+}
@@ -0,0 +1,11 @@
+import { chooseBotMove, type BotRequest, type BotResponse } from "@/lib/bots";
+
+// Runs bot searches off the main thread so deep lookahead doesn't freeze the
+// board while it thinks
+const ctx = self as unknown as Worker;
+
+ctx.addEventListener("message", (event: MessageEvent<BotRequest>) => {
+  const { id, state, level } = event.data;
+  const response: BotResponse = { id, move: chooseBotMove(state, level) };
+  ctx.postMessage(response);
+});
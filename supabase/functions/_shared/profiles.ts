@@ -0,0 +1,74 @@
+import {
+  isPlayedOut,
+  type ValidatedMove,
+} from "../../../src/lib/moveValidator.ts";
+import {
+  DEFAULT_RATING,
+  getPlaces,
+  getRatingChanges,
+} from "../../../src/lib/ratings.ts";
+import type { GameRoom, Profile } from "../../../src/lib/types.ts";
+import { getGameMoves, type getAdmin } from "./rooms.ts";
+
+// Folds a game that has just finished into its players' profiles. Bots have
+// no profile, so they are left out of the ratings entirely.
+export async function recordResult(
+  admin: ReturnType<typeof getAdmin>,
+  room: GameRoom,
+  { update }: ValidatedMove
+) {
+  const { current_state: state } = update;
+  const places = getPlaces(state);
+  const ranked = state.standings
+    .map((seat, index) => ({ ...room.seats[seat], place: places[index] }))
+    .filter((seat) => seat.user_id !== null);
+  if (ranked.length === 0) return;
+
+  const moves = await getGameMoves(admin, room);
+  const { data: profiles, error: profilesError } = await admin
+    .from("profiles")
+    .select("*")
+    .in(
+      "id",
+      ranked.map((seat) => seat.user_id)
+    );
+
+  if (!moves || profilesError) {
+    console.error("Error loading results to record:", profilesError);
+    return;
+  }
+
+  if (!isPlayedOut(room, moves, state)) {
+    console.error("Not rating a game its turns don't lead to:", room.id);
+    return;
+  }
+
+  const byId = new Map(
+    (profiles as Profile[]).map((profile) => [profile.id, profile])
+  );
+  const changes = getRatingChanges(
+    ranked.map((seat) => byId.get(seat.user_id!)?.rating ?? DEFAULT_RATING),
+    ranked.map((seat) => seat.place)
+  );
+  const now = new Date().toISOString();
+
+  const { error } = await admin.from("profiles").upsert(
+    ranked.map((seat, place) => {
+      const profile = byId.get(seat.user_id!);
+      const chains = moves
+        .filter((move) => move.player === seat.seat)
+        .map((move) => move.chain_length);
+
+      return {
+        id: seat.user_id,
+        rating: (profile?.rating ?? DEFAULT_RATING) + changes[place],
+        games_played: (profile?.games_played ?? 0) + 1,
+        wins: (profile?.wins ?? 0) + (seat.seat === state.winner ? 1 : 0),
+        longest_chain: Math.max(profile?.longest_chain ?? 0, ...chains),
+        last_played_at: now,
+      };
+    })
+  );
+
+  if (error) console.error("Error recording result:", error);
+}
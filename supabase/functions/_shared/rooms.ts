@@ -0,0 +1,165 @@
+import { createClient, type User } from "npm:@supabase/supabase-js@2";
+import type {
+  MoveRejection,
+  ValidatedMove,
+} from "../../../src/lib/moveValidator.ts";
+import { parseGameRoom } from "../../../src/lib/roomSchema.ts";
+import type { GameRoom, MoveRecord } from "../../../src/lib/types.ts";
+import { recordResult } from "./profiles.ts";
+
+// Request plumbing shared by the functions that change a room
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const REJECTION_STATUS: Partial<Record<MoveRejection, number>> = {
+  not_authenticated: 401,
+  not_a_player: 403,
+  not_allowed: 403,
+  room_not_found: 404,
+};
+
+export function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+export function reject(code: MoveRejection) {
+  return json({ error: code }, REJECTION_STATUS[code] ?? 409);
+}
+
+// Resolves the caller from their own JWT
+export async function getCaller(req: Request): Promise<User | null> {
+  const userClient = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    {
+      global: { headers: { Authorization: req.headers.get("Authorization")! } },
+    }
+  );
+  const {
+    data: { user },
+  } = await userClient.auth.getUser();
+  return user;
+}
+
+// Acts with the service role so clients never need write access to
+// current_state
+export function getAdmin() {
+  return createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+}
+
+export async function getRoom(
+  admin: ReturnType<typeof getAdmin>,
+  roomId: string
+): Promise<GameRoom | null> {
+  const { data: room, error } = await admin
+    .from("game_rooms")
+    .select("*")
+    .eq("id", roomId)
+    .single();
+
+  return error || !room ? null : parseGameRoom(room);
+}
+
+// The history of the game now being played in the room, oldest first
+export async function getGameMoves(
+  admin: ReturnType<typeof getAdmin>,
+  room: GameRoom
+): Promise<MoveRecord[] | null> {
+  const { data, error } = await admin
+    .from("game_moves")
+    .select("*")
+    .eq("room_id", room.id)
+    .eq("game_number", room.game_number ?? 1)
+    .order("room_version", { ascending: true });
+
+  if (error) {
+    console.error("Error loading game history:", error);
+    return null;
+  }
+
+  return data as MoveRecord[];
+}
+
+// Writes a change to a room that isn't a turn, such as a seat being taken,
+// but only if nobody else has updated the room since it was read
+export async function saveRoomUpdate(
+  admin: ReturnType<typeof getAdmin>,
+  room: GameRoom,
+  update: Partial<GameRoom>
+) {
+  const { data: updated, error } = await admin
+    .from("game_rooms")
+    .update(update)
+    .eq("id", room.id)
+    .eq("version", room.version)
+    .select("id");
+
+  if (error) {
+    console.error("Error updating room:", error);
+    return json({ error: "internal" }, 500);
+  }
+
+  if (updated.length === 0) return reject("conflict");
+
+  return json({ version: update.version });
+}
+
+// Writes validated turns, but only if nobody else has updated the room since
+// it was read, then records them in the room's history and, if the game
+// ended, in its players' profiles
+export async function saveTurn(
+  admin: ReturnType<typeof getAdmin>,
+  room: GameRoom,
+  turn: ValidatedMove
+) {
+  const { update, records, removedVersions = [] } = turn;
+  const { data: updated, error } = await admin
+    .from("game_rooms")
+    .update(update)
+    .eq("id", room.id)
+    .eq("version", room.version)
+    .select("id");
+
+  if (error) {
+    console.error("Error saving turn:", error);
+    return json({ error: "internal" }, 500);
+  }
+
+  if (updated.length === 0) return reject("conflict");
+
+  if (removedVersions.length > 0) {
+    const { error: removeError } = await admin
+      .from("game_moves")
+      .delete()
+      .eq("room_id", room.id)
+      .in("room_version", removedVersions);
+
+    if (removeError) {
+      console.error("Error removing taken back turns:", removeError);
+    }
+  }
+
+  if (records.length > 0) {
+    const { error: historyError } = await admin
+      .from("game_moves")
+      .insert(records);
+
+    if (historyError) {
+      console.error("Error recording turn:", historyError);
+    }
+  }
+
+  if (update.status === "finished") await recordResult(admin, room, turn);
+
+  return json({ state: update.current_state });
+}
@@ -0,0 +1,55 @@
+import {
+  MoveRejectedError,
+  validateAbandonment,
+} from "../../../src/lib/moveValidator.ts";
+import {
+  corsHeaders,
+  getAdmin,
+  getCaller,
+  getRoom,
+  json,
+  reject,
+  saveTurn,
+} from "../_shared/rooms.ts";
+
+// Awards the game to the caller once everyone else has stopped sending
+// heartbeats for the room's grace period
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await getCaller(req);
+  if (!user) return reject("not_authenticated");
+
+  const { roomId } = await req.json();
+
+  const admin = getAdmin();
+  const room = await getRoom(admin, roomId);
+  if (!room) return reject("room_not_found");
+
+  const { data: heartbeats, error } = await admin
+    .from("room_heartbeats")
+    .select("user_id, seen_at")
+    .eq("room_id", roomId);
+
+  if (error) {
+    console.error("Error fetching heartbeats:", error);
+    return json({ error: "internal" }, 500);
+  }
+
+  const lastSeen = Object.fromEntries(
+    heartbeats.map(({ user_id, seen_at }) => [user_id, seen_at])
+  );
+
+  try {
+    return await saveTurn(
+      admin,
+      room,
+      validateAbandonment(room, user.id, lastSeen)
+    );
+  } catch (error) {
+    if (error instanceof MoveRejectedError) return reject(error.code);
+    throw error;
+  }
+});
@@ -0,0 +1,53 @@
+import { createRoom } from "../../../src/lib/backend/rooms.ts";
+import { getDisplayName } from "../../../src/lib/profiles.ts";
+import {
+  corsHeaders,
+  getAdmin,
+  getCaller,
+  json,
+  reject,
+} from "../_shared/rooms.ts";
+
+// Opens a room with the caller alone in it, waiting for players, once their
+// choices of board, seats and clock check out
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await getCaller(req);
+  if (!user) return reject("not_authenticated");
+
+  const { size, options = {} } = await req.json();
+
+  const admin = getAdmin();
+  const { data: profile } = await admin
+    .from("profiles")
+    .select("*")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  const room = createRoom(
+    {
+      id: user.id,
+      name: getDisplayName(user, profile),
+      favoriteColor: profile?.favorite_color,
+    },
+    size,
+    { ...options, isPublic: options.isPublic === true }
+  );
+  if (!room) return reject("not_allowed");
+
+  const { data, error } = await admin
+    .from("game_rooms")
+    .insert([room])
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Error creating game room:", error);
+    return json({ error: "internal" }, 500);
+  }
+
+  return json({ roomId: data.id });
+});
@@ -0,0 +1,59 @@
+import {
+  getArchivedGame,
+  getRematchUpdate,
+  getRematchVotes,
+  isRematchAgreed,
+} from "../../../src/lib/backend/rooms.ts";
+import {
+  corsHeaders,
+  getAdmin,
+  getCaller,
+  getRoom,
+  json,
+  reject,
+  saveRoomUpdate,
+} from "../_shared/rooms.ts";
+
+// Records the caller's wish for a rematch of the room's finished game. Once
+// every seated person has asked, the finished game is archived and the next
+// one begins with the following seat to move first.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await getCaller(req);
+  if (!user) return reject("not_authenticated");
+
+  const { roomId } = await req.json();
+
+  const admin = getAdmin();
+  const room = await getRoom(admin, roomId);
+  if (!room) return reject("room_not_found");
+
+  const rematchVotes = getRematchVotes(room, user.id);
+  if (!rematchVotes) return reject("not_allowed");
+
+  if (!isRematchAgreed(room, rematchVotes)) {
+    return saveRoomUpdate(admin, room, {
+      rematch_votes: rematchVotes,
+      version: room.version + 1,
+    });
+  }
+
+  // Archive first; if starting the rematch then loses a race, whoever won it
+  // archives the same game and the duplicate is ignored
+  const { error } = await admin
+    .from("game_results")
+    .upsert([getArchivedGame(room)], {
+      onConflict: "room_id,game_number",
+      ignoreDuplicates: true,
+    });
+
+  if (error) {
+    console.error("Error archiving finished game:", error);
+    return json({ error: "internal" }, 500);
+  }
+
+  return saveRoomUpdate(admin, room, getRematchUpdate(room, Date.now()));
+});
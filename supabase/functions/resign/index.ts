@@ -0,0 +1,35 @@
+import {
+  MoveRejectedError,
+  validateResignation,
+} from "../../../src/lib/moveValidator.ts";
+import {
+  corsHeaders,
+  getAdmin,
+  getCaller,
+  getRoom,
+  reject,
+  saveTurn,
+} from "../_shared/rooms.ts";
+
+// Takes the caller out of the game straight away, whoever's turn it is
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await getCaller(req);
+  if (!user) return reject("not_authenticated");
+
+  const { roomId } = await req.json();
+
+  const admin = getAdmin();
+  const room = await getRoom(admin, roomId);
+  if (!room) return reject("room_not_found");
+
+  try {
+    return await saveTurn(admin, room, validateResignation(room, user.id));
+  } catch (error) {
+    if (error instanceof MoveRejectedError) return reject(error.code);
+    throw error;
+  }
+});
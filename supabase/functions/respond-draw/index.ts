@@ -0,0 +1,40 @@
+import {
+  MoveRejectedError,
+  validateDrawResponse,
+} from "../../../src/lib/moveValidator.ts";
+import {
+  corsHeaders,
+  getAdmin,
+  getCaller,
+  getRoom,
+  reject,
+  saveTurn,
+} from "../_shared/rooms.ts";
+
+// Offers, accepts or declines a draw; the game is drawn once everyone still
+// in it has agreed
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await getCaller(req);
+  if (!user) return reject("not_authenticated");
+
+  const { roomId, accept } = await req.json();
+
+  const admin = getAdmin();
+  const room = await getRoom(admin, roomId);
+  if (!room) return reject("room_not_found");
+
+  try {
+    return await saveTurn(
+      admin,
+      room,
+      validateDrawResponse(room, user.id, accept === true)
+    );
+  } catch (error) {
+    if (error instanceof MoveRejectedError) return reject(error.code);
+    throw error;
+  }
+});
@@ -0,0 +1,36 @@
+import {
+  canStartRoom,
+  getStartUpdate,
+} from "../../../src/lib/backend/rooms.ts";
+import {
+  corsHeaders,
+  getAdmin,
+  getCaller,
+  getRoom,
+  reject,
+  saveRoomUpdate,
+} from "../_shared/rooms.ts";
+
+// Lets the host start the game before every seat is taken
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await getCaller(req);
+  if (!user) return reject("not_authenticated");
+
+  const { roomId } = await req.json();
+
+  const admin = getAdmin();
+  const room = await getRoom(admin, roomId);
+  if (!room) return reject("room_not_found");
+
+  if (!canStartRoom(room, user.id)) return reject("not_allowed");
+
+  return saveRoomUpdate(
+    admin,
+    room,
+    getStartUpdate(room, room.seats, Date.now())
+  );
+});
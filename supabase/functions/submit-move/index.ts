@@ -0,0 +1,34 @@
+import {
+  MoveRejectedError,
+  validateMove,
+} from "../../../src/lib/moveValidator.ts";
+import {
+  corsHeaders,
+  getAdmin,
+  getCaller,
+  getRoom,
+  reject,
+  saveTurn,
+} from "../_shared/rooms.ts";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await getCaller(req);
+  if (!user) return reject("not_authenticated");
+
+  const { roomId, row, col } = await req.json();
+
+  const admin = getAdmin();
+  const room = await getRoom(admin, roomId);
+  if (!room) return reject("room_not_found");
+
+  try {
+    return await saveTurn(admin, room, validateMove(room, user.id, row, col));
+  } catch (error) {
+    if (error instanceof MoveRejectedError) return reject(error.code);
+    throw error;
+  }
+});
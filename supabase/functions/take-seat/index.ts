@@ -0,0 +1,52 @@
+import { BOT_LEVELS } from "../../../src/lib/bots/index.ts";
+import {
+  canAddBot,
+  canJoinRoom,
+  createSeat,
+  getSeatUpdate,
+} from "../../../src/lib/backend/rooms.ts";
+import {
+  corsHeaders,
+  getAdmin,
+  getCaller,
+  getRoom,
+  reject,
+  saveRoomUpdate,
+} from "../_shared/rooms.ts";
+
+// Seats the caller in a room waiting for players, or, when a bot level is
+// given, a computer player the host's client will play for. Filling the last
+// seat starts the game.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await getCaller(req);
+  if (!user) return reject("not_authenticated");
+
+  const { roomId, bot = null } = await req.json();
+
+  const admin = getAdmin();
+  const room = await getRoom(admin, roomId);
+  if (!room) return reject("room_not_found");
+
+  if (bot !== null) {
+    if (!BOT_LEVELS.includes(bot) || !canAddBot(room, user.id)) {
+      return reject("not_allowed");
+    }
+    const seat = createSeat(room.seats, null, bot);
+    return saveRoomUpdate(admin, room, getSeatUpdate(room, seat, Date.now()));
+  }
+
+  if (!canJoinRoom(room, user.id)) return reject("not_allowed");
+
+  const { data: profile } = await admin
+    .from("profiles")
+    .select("favorite_color")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  const seat = createSeat(room.seats, user.id, null, profile?.favorite_color);
+  return saveRoomUpdate(admin, room, getSeatUpdate(room, seat, Date.now()));
+});
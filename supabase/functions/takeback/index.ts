@@ -0,0 +1,45 @@
+import {
+  MoveRejectedError,
+  validateTakebackResponse,
+} from "../../../src/lib/moveValidator.ts";
+import {
+  corsHeaders,
+  getAdmin,
+  getCaller,
+  getGameMoves,
+  getRoom,
+  json,
+  reject,
+  saveTurn,
+} from "../_shared/rooms.ts";
+
+// Asks to take back the caller's last move, or agrees to or refuses someone
+// else's request; once everyone agrees the move is undone from the history
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await getCaller(req);
+  if (!user) return reject("not_authenticated");
+
+  const { roomId, accept } = await req.json();
+
+  const admin = getAdmin();
+  const room = await getRoom(admin, roomId);
+  if (!room) return reject("room_not_found");
+
+  const history = await getGameMoves(admin, room);
+  if (!history) return json({ error: "internal" }, 500);
+
+  try {
+    return await saveTurn(
+      admin,
+      room,
+      validateTakebackResponse(room, user.id, accept === true, history)
+    );
+  } catch (error) {
+    if (error instanceof MoveRejectedError) return reject(error.code);
+    throw error;
+  }
+});
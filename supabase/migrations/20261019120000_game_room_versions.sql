@@ -0,0 +1,8 @@
+-- Row version used for optimistic concurrency on game_rooms writes
+alter table public.game_rooms
+  add column if not exists version integer not null default 0;
+
+-- Older stored states predate move numbering
+update public.game_rooms
+set current_state = jsonb_set(current_state, '{moveNumber}', '0'::jsonb)
+where not (current_state ? 'moveNumber');
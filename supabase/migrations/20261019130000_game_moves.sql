@@ -0,0 +1,24 @@
+-- Every move applied to a room, in order, so finished games can be replayed
+create table if not exists public.game_moves (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references public.game_rooms (id) on delete cascade,
+  move_number integer not null,
+  room_version integer not null,
+  player integer not null,
+  "row" integer not null,
+  col integer not null,
+  board_hash text not null,
+  created_at timestamptz not null default now(),
+  unique (room_id, room_version)
+);
+
+create index if not exists game_moves_room_id_idx
+  on public.game_moves (room_id, room_version);
+
+alter table public.game_moves enable row level security;
+
+-- Moves are only ever written by the edge function's service role
+create policy "Anyone signed in can read moves"
+  on public.game_moves for select
+  to authenticated
+  using (true);
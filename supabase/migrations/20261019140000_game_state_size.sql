@@ -0,0 +1,8 @@
+-- Rooms created before board sizes were configurable were always 6x6
+update public.game_rooms
+set current_state = jsonb_set(
+  current_state,
+  '{size}',
+  '{"rows": 6, "cols": 6}'::jsonb
+)
+where not (current_state ? 'size');
@@ -0,0 +1,41 @@
+-- Rooms hold a roster of up to eight seats instead of two fixed players
+alter table public.game_rooms
+  add column if not exists capacity integer not null default 2
+    check (capacity between 2 and 8),
+  add column if not exists seats jsonb not null default '[]'::jsonb;
+
+update public.game_rooms
+set seats = jsonb_build_array(
+    jsonb_build_object(
+      'seat', 0,
+      'user_id', player1_id,
+      'color', '#FF5252',
+      'eliminated', coalesce(winner = 1, false)
+    )
+  ) || case
+    when player2_id is null then '[]'::jsonb
+    else jsonb_build_array(
+      jsonb_build_object(
+        'seat', 1,
+        'user_id', player2_id,
+        'color', '#4CAF50',
+        'eliminated', coalesce(winner = 0, false)
+      )
+    )
+  end
+where seats = '[]'::jsonb;
+
+-- Two-player states from before elimination tracking
+update public.game_rooms
+set current_state = current_state || jsonb_build_object(
+    'playerCount', 2,
+    'eliminated', case
+      when winner is null then '[]'::jsonb
+      else jsonb_build_array(1 - winner)
+    end,
+    'standings', case
+      when winner is null then '[]'::jsonb
+      else jsonb_build_array(winner, 1 - winner)
+    end
+  )
+where not (current_state ? 'playerCount');
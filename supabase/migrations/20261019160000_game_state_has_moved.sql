@@ -0,0 +1,12 @@
+-- Seats take their first turns in order, so seat n has moved once more than n
+-- moves have been played
+update public.game_rooms
+set current_state = jsonb_set(
+  current_state,
+  '{hasMoved}',
+  (
+    select jsonb_agg((current_state ->> 'moveNumber')::int > seat order by seat)
+    from generate_series(0, (current_state ->> 'playerCount')::int - 1) as seat
+  )
+)
+where not (current_state ? 'hasMoved');
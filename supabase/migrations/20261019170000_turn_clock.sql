@@ -0,0 +1,23 @@
+-- Optional per-room time control, with the clock state both clients count
+-- down from and the claim-timeout function judges against
+alter table public.game_rooms
+  add column if not exists time_control jsonb,
+  add column if not exists clocks jsonb,
+  add column if not exists turn_started_at timestamptz,
+  add column if not exists turn_deadline timestamptz,
+  add column if not exists result_reason text
+    check (result_reason in ('elimination', 'timeout'));
+
+update public.game_rooms
+set result_reason = 'elimination'
+where status = 'finished' and result_reason is null;
+
+-- A seat that runs out of time may forfeit its turn instead of playing a cell
+alter table public.game_moves
+  add column if not exists forfeit boolean not null default false,
+  alter column "row" drop not null,
+  alter column col drop not null;
+
+alter table public.game_moves
+  add constraint game_moves_cell_check
+    check (forfeit or ("row" is not null and col is not null));
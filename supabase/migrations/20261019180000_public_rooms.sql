@@ -0,0 +1,8 @@
+-- Public rooms are listed in the lobby and matched by quick match
+alter table public.game_rooms
+  add column if not exists is_public boolean not null default false,
+  add column if not exists host_name text;
+
+create index if not exists game_rooms_open_idx
+  on public.game_rooms (created_at)
+  where is_public and status = 'waiting';
@@ -0,0 +1,47 @@
+-- Players whose opponents have all disconnected for the room's grace period
+-- can claim the game
+alter table public.game_rooms
+  add column if not exists abandon_grace_seconds integer not null default 60
+    check (abandon_grace_seconds in (30, 60, 120, 300));
+
+alter table public.game_rooms
+  drop constraint if exists game_rooms_result_reason_check,
+  add constraint game_rooms_result_reason_check
+    check (result_reason in ('elimination', 'timeout', 'abandonment'));
+
+-- Last time each user's client reported having a room open, judged by the
+-- database's clock so the claim-abandonment function can trust it
+create table if not exists public.room_heartbeats (
+  room_id uuid not null references public.game_rooms (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  seen_at timestamptz not null default now(),
+  primary key (room_id, user_id)
+);
+
+alter table public.room_heartbeats enable row level security;
+
+create policy "Users can record their own heartbeat"
+  on public.room_heartbeats for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users can refresh their own heartbeat"
+  on public.room_heartbeats for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can read their own heartbeat"
+  on public.room_heartbeats for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create or replace function public.touch_room_heartbeat(target_room uuid)
+returns void
+language sql
+security invoker
+as $$
+  insert into public.room_heartbeats (room_id, user_id)
+  values (target_room, auth.uid())
+  on conflict (room_id, user_id) do update set seen_at = now();
+$$;
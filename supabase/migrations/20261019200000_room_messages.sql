@@ -0,0 +1,44 @@
+-- Chat lines and quick reactions, kept per room so they survive reloads and
+-- show up in replays; live delivery goes over the room's broadcast channel
+create table if not exists public.room_messages (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references public.game_rooms (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  author_name text not null,
+  kind text not null default 'text' check (kind in ('text', 'reaction')),
+  body text not null check (char_length(body) between 1 and 280),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists room_messages_room_id_idx
+  on public.room_messages (room_id, created_at);
+
+alter table public.room_messages enable row level security;
+
+create policy "Anyone signed in can read messages"
+  on public.room_messages for select
+  to authenticated
+  using (true);
+
+-- Only seated players may talk, and at most once a second
+create policy "Players can send messages to their room"
+  on public.room_messages for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1
+      from public.game_rooms r
+      where r.id = room_id
+        and r.seats @> jsonb_build_array(
+          jsonb_build_object('user_id', auth.uid()::text)
+        )
+    )
+    and not exists (
+      select 1
+      from public.room_messages m
+      where m.room_id = room_messages.room_id
+        and m.user_id = auth.uid()
+        and m.created_at > now() - interval '1 second'
+    )
+  );
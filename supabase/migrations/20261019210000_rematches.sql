@@ -0,0 +1,47 @@
+-- Rooms host a series of games: players agree to rematches, finished games
+-- are archived, and the room keeps score
+alter table public.game_rooms
+  add column if not exists game_number integer not null default 1,
+  add column if not exists series_wins jsonb not null default '[]'::jsonb,
+  add column if not exists rematch_votes jsonb not null default '[]'::jsonb;
+
+update public.game_rooms
+set series_wins = (
+  select jsonb_agg(case when seat = winner then 1 else 0 end order by seat)
+  from generate_series(0, jsonb_array_length(seats) - 1) as seat
+)
+where status = 'finished' and series_wins = '[]'::jsonb;
+
+create table if not exists public.game_results (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references public.game_rooms (id) on delete cascade,
+  game_number integer not null,
+  seats jsonb not null,
+  final_state jsonb not null,
+  winner integer,
+  result_reason text,
+  finished_at timestamptz not null default now(),
+  unique (room_id, game_number)
+);
+
+alter table public.game_results enable row level security;
+
+create policy "Anyone signed in can read results"
+  on public.game_results for select
+  to authenticated
+  using (true);
+
+create policy "Players can archive their room's games"
+  on public.game_results for insert
+  to authenticated
+  with check (
+    exists (
+      select 1
+      from public.game_rooms r
+      where r.id = room_id
+        and r.status = 'finished'
+        and r.seats @> jsonb_build_array(
+          jsonb_build_object('user_id', auth.uid()::text)
+        )
+    )
+  );
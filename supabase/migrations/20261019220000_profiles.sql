@@ -0,0 +1,74 @@
+-- How big each move's cascade was, for the longest-chain stat
+alter table public.game_moves
+  add column if not exists chain_length integer not null default 0;
+
+-- One per user: what others see of them, and their record. Players may only
+-- edit how they appear; the stats and rating are written by the edge
+-- functions' service role as games finish.
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  display_name text check (char_length(display_name) between 1 and 40),
+  avatar_url text check (avatar_url ~ '^https://'),
+  favorite_color text check (favorite_color ~ '^#[0-9A-Fa-f]{6}$'),
+  rating integer not null default 1200,
+  games_played integer not null default 0,
+  wins integer not null default 0,
+  longest_chain integer not null default 0,
+  last_played_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists profiles_rating_idx
+  on public.profiles (rating desc);
+
+create index if not exists profiles_games_played_idx
+  on public.profiles (games_played desc);
+
+alter table public.profiles enable row level security;
+
+create policy "Anyone signed in can read profiles"
+  on public.profiles for select
+  to authenticated
+  using (true);
+
+create policy "Users can edit their own profile"
+  on public.profiles for update
+  to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+revoke update on public.profiles from authenticated;
+grant update (display_name, avatar_url, favorite_color)
+  on public.profiles to authenticated;
+
+-- Everyone gets a profile when they first sign in, named after their account
+create or replace function public.create_profile()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, display_name, avatar_url)
+  values (
+    new.id,
+    left(coalesce(new.raw_user_meta_data ->> 'full_name', split_part(new.email, '@', 1)), 40),
+    nullif(new.raw_user_meta_data ->> 'avatar_url', '')
+  )
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists create_profile_on_signup on auth.users;
+create trigger create_profile_on_signup
+  after insert on auth.users
+  for each row execute function public.create_profile();
+
+insert into public.profiles (id, display_name, avatar_url)
+select
+  id,
+  left(coalesce(raw_user_meta_data ->> 'full_name', split_part(email, '@', 1)), 40),
+  nullif(raw_user_meta_data ->> 'avatar_url', '')
+from auth.users
+on conflict (id) do nothing;
@@ -0,0 +1,25 @@
+-- Games can also end by resignation or an agreed draw
+alter table public.game_rooms
+  add column if not exists draw_offers jsonb not null default '[]'::jsonb;
+
+alter table public.game_rooms
+  drop constraint if exists game_rooms_result_reason_check,
+  add constraint game_rooms_result_reason_check
+    check (
+      result_reason in (
+        'elimination',
+        'timeout',
+        'abandonment',
+        'resignation',
+        'draw'
+      )
+    );
+
+-- The state now says how the game ended too
+update public.game_rooms
+set current_state = jsonb_set(
+  current_state,
+  '{resultReason}',
+  coalesce(to_jsonb(result_reason), 'null'::jsonb)
+)
+where not (current_state ? 'resultReason');
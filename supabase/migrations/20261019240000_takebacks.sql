@@ -0,0 +1,23 @@
+-- Moves are tagged with the game they belong to, so a takeback can rebuild
+-- the current game's position from its history alone
+alter table public.game_moves
+  add column if not exists game_number integer not null default 1;
+
+-- Every game's history starts again from move 1
+update public.game_moves m
+set game_number = g.game_number
+from (
+  select
+    id,
+    count(*) filter (where move_number = 1)
+      over (partition by room_id order by room_version) as game_number
+  from public.game_moves
+) g
+where g.id = m.id and g.game_number > 1;
+
+create index if not exists game_moves_game_idx
+  on public.game_moves (room_id, game_number, room_version);
+
+-- The seat asking to take back its last move, then those who agreed
+alter table public.game_rooms
+  add column if not exists takeback_votes jsonb not null default '[]'::jsonb;
@@ -0,0 +1,19 @@
+-- States now say which schema version they were written with. Earlier
+-- migrations already filled in every field, so all stored states are
+-- version 1.
+update public.game_rooms
+set current_state = jsonb_set(current_state, '{schemaVersion}', '1'::jsonb)
+where not (current_state ? 'schemaVersion');
+
+update public.game_results
+set final_state = jsonb_set(final_state, '{schemaVersion}', '1'::jsonb)
+where not (final_state ? 'schemaVersion');
+
+-- Refuse rows no client can play from
+alter table public.game_rooms
+  drop constraint if exists game_rooms_current_state_check,
+  add constraint game_rooms_current_state_check
+    check (
+      jsonb_typeof(current_state -> 'board') = 'array'
+      and jsonb_typeof(current_state -> 'schemaVersion') = 'number'
+    );
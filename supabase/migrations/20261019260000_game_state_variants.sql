@@ -0,0 +1,26 @@
+-- Rooms can be played under rule variants (a torus, walls, eight neighbours),
+-- kept in the state as schema version 2. Everything stored so far was the
+-- standard game.
+update public.game_rooms
+set current_state = jsonb_set(
+  jsonb_set(
+    current_state,
+    '{variant}',
+    '{"wrap": false, "neighbours": 4, "walls": []}'::jsonb
+  ),
+  '{schemaVersion}',
+  '2'::jsonb
+)
+where (current_state ->> 'schemaVersion')::int = 1;
+
+update public.game_results
+set final_state = jsonb_set(
+  jsonb_set(
+    final_state,
+    '{variant}',
+    '{"wrap": false, "neighbours": 4, "walls": []}'::jsonb
+  ),
+  '{schemaVersion}',
+  '2'::jsonb
+)
+where (final_state ->> 'schemaVersion')::int = 1;
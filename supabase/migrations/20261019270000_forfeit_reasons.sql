@@ -0,0 +1,11 @@
+-- Forfeits record why the seat dropped out, so replays end the game the way
+-- it really ended. Forfeits recorded before this have no reason.
+alter table public.game_moves
+  add column if not exists forfeit_reason text;
+
+alter table public.game_moves
+  add constraint game_moves_forfeit_reason_check
+    check (
+      forfeit_reason is null
+      or (forfeit and forfeit_reason in ('timeout', 'abandonment', 'resignation'))
+    );
@@ -0,0 +1,10 @@
+-- Rooms are created and change only through the edge functions, which
+-- judge every change with the service role: opening rooms, taking seats,
+-- starting games and rematches as well as turns. Clients could otherwise
+-- write a room's state, result, series score or version directly, and the
+-- results feed everyone's ratings.
+revoke insert, update on public.game_rooms from anon, authenticated;
+
+-- Finished games are archived by the request-rematch function
+drop policy if exists "Players can archive their room's games"
+  on public.game_results;
@@ -0,0 +1,3 @@
+-- Chat is delivered from the saved rows rather than a broadcast any client
+-- could send to, so only messages the insert policy accepted reach players
+alter publication supabase_realtime add table public.room_messages;
@@ -0,0 +1,12 @@
+-- An agreed draw is recorded as the game's last turn, by the seat whose
+-- agreement settled it, so replays and game records end the way the game
+-- did. It places no atoms, like a forfeit.
+alter table public.game_moves
+  add column if not exists draw boolean not null default false;
+
+alter table public.game_moves
+  drop constraint game_moves_cell_check;
+
+alter table public.game_moves
+  add constraint game_moves_cell_check
+    check (forfeit or draw or ("row" is not null and col is not null));